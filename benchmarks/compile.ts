@@ -0,0 +1,49 @@
+import * as t from '../sources';
+
+const ITEM_COUNT = 10_000;
+const ITERATIONS = 50;
+
+const isEvent = t.isObject({
+  id: t.cascade(t.isNumber(), [t.isInteger(), t.isAtLeast(0)]),
+  type: t.isEnum([`click`, `view`, `purchase`]),
+  user: t.isObject({
+    name: t.cascade(t.isString(), [t.hasMinLength(1)]),
+    email: t.isOptional(t.isString()),
+  }),
+  tags: t.isArray(t.isString()),
+  amount: t.isNullable(t.isNumber()),
+});
+
+const isBatch = t.isArray(isEvent);
+const isCompiledBatch = t.compile(isBatch);
+
+const batch = Array.from({length: ITEM_COUNT}, (_, index) => ({
+  id: index,
+  type: [`click`, `view`, `purchase`][index % 3],
+  user: {name: `user${index}`, email: index % 2 === 0 ? `user${index}@example.org` : undefined},
+  tags: [`foo`, `bar`],
+  amount: index % 3 === 2 ? index * 10 : null,
+}));
+
+function measure(name: string, validator: (value: unknown) => boolean) {
+  // Warm up the JIT before measuring
+  for (let i = 0; i < 5; ++i)
+    validator(batch);
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; ++i)
+    if (!validator(batch))
+      throw new Error(`Assertion failed: the batch should be valid`);
+
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+  console.log(`${name.padEnd(12)} ${(elapsed / ITERATIONS).toFixed(2).padStart(8)} ms/batch`);
+
+  return elapsed;
+}
+
+console.log(`Validating ${ITERATIONS} batches of ${ITEM_COUNT} items\n`);
+
+const interpreted = measure(`interpreted`, value => isBatch(value));
+const compiled = measure(`compiled`, value => isCompiledBatch(value));
+
+console.log(`\nSpeedup: x${(interpreted / compiled).toFixed(2)}`);
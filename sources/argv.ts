@@ -0,0 +1,270 @@
+import {
+  formatMessage,
+} from './internal/format';
+
+import {
+  describeValidatorType,
+  unwrapValidator,
+} from './internal/tools';
+
+import {
+  as,
+} from './tools';
+
+import {
+  AnyStrictValidator,
+  InferType,
+  LooseTest,
+  MessageCatalog,
+  ValidationIssue,
+} from './types';
+
+export type ArgvValidationIssue = ValidationIssue & {
+  option: string,
+};
+
+type ArgvOption = {
+  key: string,
+  name: string,
+  type: string,
+  required: boolean,
+  boolean: boolean,
+  repeatable: boolean,
+};
+
+// Positional arguments are stored into this property, which is expected to
+// be an `isTuple` (or an `isArray` for variadic commands)
+const POSITIONALS_KEY = `_`;
+
+function toOptionName(key: string) {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, `$1-$2`)
+    .replace(/([A-Z]+)([A-Z][a-z])/g, `$1-$2`)
+    .replace(/[^a-zA-Z0-9]+/g, `-`)
+    .toLowerCase();
+}
+
+function getCommandDescription(spec: LooseTest<any>) {
+  const {descriptor} = unwrapValidator(spec);
+  if (descriptor?.kind !== `object`)
+    throw new Error(`Command-line arguments can only be bound to object validators`);
+
+  const options: Array<ArgvOption> = [];
+  let positionals: LooseTest<any> | null = null;
+
+  for (const [key, property] of Object.entries<AnyStrictValidator>(descriptor.options.properties)) {
+    if (key === POSITIONALS_KEY) {
+      positionals = property;
+      continue;
+    }
+
+    const {validator, descriptor: propertyDescriptor, required} = unwrapValidator(property);
+
+    const kind = propertyDescriptor?.kind;
+    const repeatable = kind === `array` || kind === `set`;
+
+    options.push({
+      key,
+      name: toOptionName(key),
+      type: describeValidatorType(repeatable ? propertyDescriptor!.options.spec : validator),
+      required,
+      boolean: kind === `boolean`,
+      repeatable,
+    });
+  }
+
+  return {options, positionals};
+}
+
+function describePositionals(spec: LooseTest<any> | null) {
+  if (spec === null)
+    return [];
+
+  const {descriptor, required} = unwrapValidator(spec);
+
+  switch (descriptor?.kind) {
+    case `tuple`:
+      return descriptor.options.spec.map((item: LooseTest<any>) => {
+        const {required} = unwrapValidator(item);
+        const type = describeValidatorType(item);
+
+        return required ? `<${type}>` : `[${type}]`;
+      });
+
+    case `array`:
+    case `set`:
+      return [`[${describeValidatorType(descriptor.options.spec)}...]`];
+
+    default:
+      return [required ? `<${describeValidatorType(spec)}>` : `[${describeValidatorType(spec)}]`];
+  }
+}
+
+/**
+ * Generate the help text for the command-line options derived from the given
+ * object validator (see `parseArgv`).
+ */
+export function formatArgvHelp(spec: AnyStrictValidator, {name = `command`}: {name?: string} = {}) {
+  const {options, positionals} = getCommandDescription(spec);
+
+  const usage = [name, ...options.length > 0 ? [`[options]`] : [], ...describePositionals(positionals)];
+  const lines = [`Usage: ${usage.join(` `)}`];
+
+  if (options.length > 0) {
+    const rows = options.map(option => {
+      const flag = option.boolean
+        ? `--[no-]${option.name}`
+        : `--${option.name} <${option.type}>${option.repeatable ? `...` : ``}`;
+
+      const notes = [
+        ...option.repeatable ? [`repeatable`] : [],
+        ...!option.required ? [`optional`] : [],
+      ];
+
+      return [flag, notes.length > 0 ? `(${notes.join(`, `)})` : ``];
+    });
+
+    const width = Math.max(...rows.map(([flag]) => flag.length));
+
+    lines.push(``, `Options:`);
+    for (const [flag, notes] of rows) {
+      lines.push(`  ${flag.padEnd(width)}  ${notes}`.trimEnd());
+    }
+  }
+
+  return lines.join(`\n`);
+}
+
+/**
+ * Parse the given command-line arguments (typically `process.argv.slice(2)`)
+ * into a value matching the properties of the given object validator, then
+ * validate it with coercion enabled.
+ *
+ * Each property maps to a long option whose name is the kebab-case version
+ * of the property name (`dryRun` maps to `--dry-run`). Values can be passed
+ * either as `--name value` or `--name=value`. Boolean properties are set by
+ * `--name` and unset by `--no-name`, and array properties accumulate the
+ * values of repeated options. Positional arguments are stored into the `_`
+ * property, typically declared using `isTuple`. Everything after `--` is
+ * considered positional.
+ *
+ * Unknown options are reported as such (even when their names match the
+ * property names, like `--dryRun`), and all errors are reported against the
+ * option names rather than the property paths.
+ */
+export function parseArgv<T extends AnyStrictValidator>(argv: ReadonlyArray<string>, spec: T, {catalog}: {catalog?: MessageCatalog} = {}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string>, issues: Array<ArgvValidationIssue>} {
+  const {options, positionals: positionalSpec} = getCommandDescription(spec);
+
+  const optionsByName = new Map(options.map(option => [option.name, option]));
+  const names = new Map(options.map(option => [JSON.stringify([option.key]), `--${option.name}`]));
+
+  const input = new Map<string, unknown>();
+  const positionals: Array<string> = [];
+  const unknownOptions: Array<{name: string, value: unknown}> = [];
+
+  let parsingOptions = true;
+
+  for (let t = 0; t < argv.length; ++t) {
+    const arg = argv[t];
+
+    if (!parsingOptions || !arg.startsWith(`--`)) {
+      positionals.push(arg);
+      continue;
+    }
+
+    if (arg === `--`) {
+      parsingOptions = false;
+      continue;
+    }
+
+    const separatorIndex = arg.indexOf(`=`);
+
+    const name = separatorIndex !== -1 ? arg.slice(2, separatorIndex) : arg.slice(2);
+    let value: string | boolean | undefined = separatorIndex !== -1 ? arg.slice(separatorIndex + 1) : undefined;
+
+    let option = optionsByName.get(name);
+
+    if (typeof option === `undefined` && typeof value === `undefined` && name.startsWith(`no-`)) {
+      const negatedOption = optionsByName.get(name.slice(3));
+      if (negatedOption?.boolean) {
+        option = negatedOption;
+        value = false;
+      }
+    }
+
+    // Unknown options don't consume the next argument, since we can't know
+    // whether they expect a value. They're kept apart from the input so that
+    // they can't be mistaken for properties (`--dryRun`, `--_`, ...)
+    if (typeof option === `undefined`) {
+      unknownOptions.push({name: `--${name}`, value: value ?? true});
+      continue;
+    }
+
+    // Options missing their value are set to `true`, so that the validator
+    // reports the type mismatch
+    if (typeof value === `undefined`)
+      value = !option.boolean && t + 1 < argv.length && !argv[t + 1].startsWith(`--`) ? argv[++t] : true;
+
+    if (option.repeatable) {
+      const values = input.get(option.key) as Array<unknown> | undefined ?? [];
+      input.set(option.key, [...values, value]);
+    } else {
+      input.set(option.key, value);
+    }
+  }
+
+  if (positionalSpec !== null || positionals.length > 0) {
+    const values: Array<string | undefined> = [...positionals];
+
+    // Tuples check their exact length, so the missing trailing arguments are
+    // passed as undefined (which their optional items accept)
+    const {descriptor} = positionalSpec !== null ? unwrapValidator(positionalSpec) : {descriptor: null};
+    if (descriptor?.kind === `tuple`)
+      while (values.length < descriptor.options.spec.length)
+        values.push(undefined);
+
+    names.set(JSON.stringify([POSITIONALS_KEY]), `<arguments>`);
+    for (let t = 0; t < values.length; ++t)
+      names.set(JSON.stringify([POSITIONALS_KEY, t]), `<argument #${t + 1}>`);
+
+    input.set(POSITIONALS_KEY, values);
+  }
+
+  // We can't use a simple assignment, otherwise a `__proto__` property would
+  // change the prototype instead of being reported by the validator
+  const rawValue: {[key: string]: unknown} = {};
+  for (const [key, value] of input)
+    Object.defineProperty(rawValue, key, {value, enumerable: true, configurable: true, writable: true});
+
+  const result = as(rawValue, spec, {coerce: true, errors: true, catalog});
+  if (!(`issues` in result) && unknownOptions.length === 0)
+    return result;
+
+  const unknownOptionIssues = unknownOptions.map(({name, value}): ArgvValidationIssue => ({
+    path: [],
+    code: `extraneous_property`,
+    message: formatMessage(catalog, `unknownOption`),
+    received: value,
+    option: name,
+  }));
+
+  const validationIssues = (`issues` in result ? result.issues : []).map(issue => {
+    let depth = issue.path.length;
+    while (depth > 0 && !names.has(JSON.stringify(issue.path.slice(0, depth))))
+      depth -= 1;
+
+    const option = depth > 0
+      ? names.get(JSON.stringify(issue.path.slice(0, depth)))!
+      : `.`;
+
+    // Values nested inside options (for example the items of repeated options) keep their path
+    const suffix = issue.path.slice(depth).map(segment => `[${JSON.stringify(segment)}]`).join(``);
+
+    return {...issue, option: `${option}${suffix}`};
+  });
+
+  const issues = [...unknownOptionIssues, ...validationIssues];
+  const errors = issues.map(({option, message}) => `${option}: ${message}`);
+
+  return {value: result.value, errors, issues};
+}
@@ -0,0 +1,212 @@
+import {
+  getDescriptor,
+  isBuiltinValidator,
+} from './internal/tools';
+
+import {
+  makeValidator,
+} from './tools';
+
+import {
+  AnyStrictValidator,
+  InferType,
+  LooseTest,
+  StrictValidator,
+  ValidationState,
+} from './types';
+
+type CompilerContext = {
+  constants: Array<unknown>,
+  functions: Array<string>,
+  names: Map<LooseTest<any>, string>,
+};
+
+// Each compiler returns the body of a function receiving the value as `v`
+// and returning whether it's valid; `c` holds the constants, `h` is the
+// `hasOwnProperty` function
+type Compiler = (options: any, context: CompilerContext) => string;
+
+function addConstant(context: CompilerContext, value: unknown) {
+  context.constants.push(value);
+  return `c[${context.constants.length - 1}]`;
+}
+
+const UNSAFE_KEYS = new Set([`__proto__`, `constructor`]);
+
+const compilers: {[kind: string]: Compiler} = {
+  unknown: () => `return true;`,
+  literal: ({expected}, context) => `return v === ${addConstant(context, expected)};`,
+  string: () => `return typeof v === "string";`,
+  enum: ({values}, context) => `return ${addConstant(context, new Set(values))}.has(v);`,
+  boolean: () => `return typeof v === "boolean";`,
+  number: () => `return typeof v === "number";`,
+  bigint: () => `return typeof v === "bigint";`,
+  duration: () => `return typeof v === "number";`,
+  byteSize: () => `return typeof v === "number";`,
+  date: () => `return v instanceof Date && !isNaN(v.getTime());`,
+
+  array: ({spec}, context) => [
+    `if (!Array.isArray(v)) return false;`,
+    `for (let i = 0, n = v.length; i < n; ++i)`,
+    `  if (!${compileValidator(spec, context)}(v[i])) return false;`,
+    `return true;`,
+  ].join(`\n`),
+
+  tuple: ({spec}, context) => [
+    `if (!Array.isArray(v) || v.length !== ${spec.length}) return false;`,
+    ...spec.map((sub: AnyStrictValidator, index: number) => `if (!${compileValidator(sub, context)}(v[${index}])) return false;`),
+    `return true;`,
+  ].join(`\n`),
+
+  record: ({spec, keys}, context) => [
+    `if (typeof v !== "object" || v === null) return false;`,
+    `const keys = Object.keys(v);`,
+    `for (let i = 0, n = keys.length; i < n; ++i) {`,
+    `  const k = keys[i];`,
+    `  if (k === "__proto__" || k === "constructor") return false;`,
+    ...keys !== null ? [`  if (!${compileValidator(keys, context)}(k)) return false;`] : [],
+    `  if (!${compileValidator(spec, context)}(v[k])) return false;`,
+    `}`,
+    `return true;`,
+  ].join(`\n`),
+
+  object: ({properties, extra, unknownKeys}, context) => {
+    const specKeys = Object.keys(properties);
+    if (specKeys.some(key => UNSAFE_KEYS.has(key)))
+      return `return false;`;
+
+    return [
+      `if (typeof v !== "object" || v === null) return false;`,
+      ...specKeys.map(key => {
+        const literal = JSON.stringify(key);
+        return `if (!${compileValidator(properties[key], context)}(h.call(v, ${literal}) ? v[${literal}] : undefined)) return false;`;
+      }),
+      ...extra !== null ? [`const e = {};`] : [],
+      `for (const k of Object.keys(v)) {`,
+      `  if (${addConstant(context, new Set(specKeys))}.has(k)) continue;`,
+      `  if (k === "__proto__" || k === "constructor") return false;`,
+      ...extra !== null ? [`  e[k] = v[k];`] : unknownKeys === `reject` ? [`  return false;`] : [],
+      `}`,
+      extra !== null ? `return ${compileValidator(extra, context)}(e);` : `return true;`,
+    ].join(`\n`);
+  },
+
+  oneOf: ({specs, exclusive}, context) => {
+    const names = specs.map((spec: AnyStrictValidator) => compileValidator(spec, context));
+    if (!exclusive)
+      return `return ${names.map((name: string) => `${name}(v)`).join(` || `) || `false`};`;
+
+    return [
+      `let n = 0;`,
+      ...names.map((name: string) => `if (${name}(v)) ++n;`),
+      `return n === 1;`,
+    ].join(`\n`);
+  },
+
+  allOf: ({specs}, context) => `return ${specs.map((spec: AnyStrictValidator) => `${compileValidator(spec, context)}(v)`).join(` && `) || `true`};`,
+
+  discriminatedUnion: ({key, variants}, context) => [
+    `if (typeof v !== "object" || v === null) return false;`,
+    `const d = v[${JSON.stringify(key)}];`,
+    `if (typeof d !== "string" || !h.call(${addConstant(context, variants)}, d)) return false;`,
+    `switch (d) {`,
+    ...Object.keys(variants).map(variant => `  case ${JSON.stringify(variant)}: return ${compileValidator(variants[variant], context)}(v);`),
+    `}`,
+    `return false;`,
+  ].join(`\n`),
+
+  cascade: ({spec, followups}, context) => `return ${[spec, ...followups].map(sub => `${compileValidator(sub, context)}(v)`).join(` && `)};`,
+  optional: ({spec}, context) => `return v === undefined || ${compileValidator(spec, context)}(v);`,
+  nullable: ({spec}, context) => `return v === null || ${compileValidator(spec, context)}(v);`,
+  default: ({spec}, context) => `return v !== undefined && ${compileValidator(spec, context)}(v);`,
+
+  minLength: ({length}, context) => `return v.length >= ${addConstant(context, length)};`,
+  maxLength: ({length}, context) => `return v.length <= ${addConstant(context, length)};`,
+  exactLength: ({length}, context) => `return v.length === ${addConstant(context, length)};`,
+  negative: () => `return v <= 0;`,
+  positive: () => `return v >= 0;`,
+  atLeast: ({n}, context) => `return v >= ${addConstant(context, n)};`,
+  atMost: ({n}, context) => `return v <= ${addConstant(context, n)};`,
+  inInclusiveRange: ({a, b}, context) => `return v >= ${addConstant(context, a)} && v <= ${addConstant(context, b)};`,
+  inExclusiveRange: ({a, b}, context) => `return v >= ${addConstant(context, a)} && v < ${addConstant(context, b)};`,
+  after: ({date}, context) => `return v.getTime() > ${addConstant(context, date.getTime())};`,
+  before: ({date}, context) => `return v.getTime() < ${addConstant(context, date.getTime())};`,
+  inDateRange: ({a, b}, context) => `return v.getTime() >= ${addConstant(context, a.getTime())} && v.getTime() <= ${addConstant(context, b.getTime())};`,
+  finite: () => `return Number.isFinite(v);`,
+  integer: ({unsafe}) => unsafe
+    ? `return v === Math.round(v);`
+    : `return v === Math.round(v) && Number.isSafeInteger(v);`,
+  regExp: ({regExp}, context) => `return ${addConstant(context, regExp)}.test(v);`,
+  port: () => `return Number.isInteger(v) && v >= 1 && v <= 65535;`,
+  lowerCase: () => `return v === v.toLowerCase();`,
+  upperCase: () => `return v === v.toUpperCase();`,
+};
+
+function compileValidator(validator: LooseTest<any>, context: CompilerContext) {
+  const existingName = context.names.get(validator);
+  if (typeof existingName !== `undefined`)
+    return existingName;
+
+  // The name must be registered before compiling the body, in case the
+  // validator is referenced from within itself
+  const name = `f${context.names.size}`;
+  context.names.set(validator, name);
+
+  // Custom validators may carry the descriptor of a builtin one, but we can't
+  // assume that their tests match it
+  const descriptor = getDescriptor(validator);
+  const compiler = descriptor !== null && isBuiltinValidator(validator) && Object.prototype.hasOwnProperty.call(compilers, descriptor.kind)
+    ? compilers[descriptor.kind]
+    : undefined;
+
+  // Validators we don't know how to compile (including custom ones) are
+  // simply called; without state, they'll run their fastest path anyway
+  const body = typeof compiler !== `undefined`
+    ? compiler(descriptor!.options, context)
+    : `return ${addConstant(context, validator)}(v);`;
+
+  context.functions.push(`function ${name}(v) {\n${body}\n}`);
+  return name;
+}
+
+function isBareState(state: ValidationState | undefined) {
+  return typeof state?.errors === `undefined`
+    && typeof state?.issues === `undefined`
+    && typeof state?.coercions === `undefined`
+    && typeof state?.pending === `undefined`;
+}
+
+/**
+ * Generate a specialized version of the given validator, where the checks
+ * described by the builtin predicates are inlined into plain JavaScript
+ * functions. The resulting validator has the same semantics as the original
+ * one, but avoids allocating the intermediary states when neither errors,
+ * issues, coercions, nor async checks are requested (in which case the
+ * original validator is used instead).
+ *
+ * Custom validators created through `makeValidator` aren't inlined (even if
+ * they carry a descriptor), but still work as expected.
+ */
+export function compile<T extends AnyStrictValidator>(validator: T): StrictValidator<unknown, InferType<T>> {
+  const context: CompilerContext = {
+    constants: [],
+    functions: [],
+    names: new Map(),
+  };
+
+  const name = compileValidator(validator, context);
+  const code = `${context.functions.join(`\n\n`)}\n\nreturn ${name};`;
+
+  const fastTest = new Function(`c`, `h`, code)(context.constants, Object.prototype.hasOwnProperty) as (value: unknown) => boolean;
+  const descriptor = getDescriptor(validator);
+
+  return makeValidator<unknown, InferType<T>>({
+    descriptor: descriptor ?? undefined,
+    test: (value, state): value is InferType<T> => {
+      if (isBareState(state))
+        return fastTest(value);
+
+      return validator(value, state);
+    },
+  });
+}
@@ -0,0 +1,172 @@
+import {
+  describeValidatorType,
+  unwrapValidator,
+} from './internal/tools';
+
+import {
+  as,
+} from './tools';
+
+import {
+  AnyStrictValidator,
+  InferType,
+  LooseTest,
+  MessageCatalog,
+  PathSegment,
+  ValidationIssue,
+  ValidatorDescriptor,
+} from './types';
+
+export type EnvOptions = {
+  /**
+   * Prefix prepended to all the variable names (for example `APP_`).
+   */
+  prefix?: string,
+  /**
+   * Separator used between the names of nested properties (defaults to `__`).
+   */
+  separator?: string,
+};
+
+export type EnvVariable = {
+  name: string,
+  path: PathSegment[],
+  type: string,
+  required: boolean,
+};
+
+export type EnvValidationIssue = ValidationIssue & {
+  variable: string,
+};
+
+type EnvNode = {
+  name: string,
+  path: PathSegment[],
+  required: boolean,
+} & ({
+  kind: `variable`,
+  validator: LooseTest<any>,
+} | {
+  kind: `object`,
+  children: Array<EnvNode>,
+});
+
+function toVariableName(key: string) {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, `$1_$2`)
+    .replace(/([A-Z]+)([A-Z][a-z])/g, `$1_$2`)
+    .replace(/[^a-zA-Z0-9]+/g, `_`)
+    .toUpperCase();
+}
+
+function getObjectDescriptor(spec: LooseTest<any>) {
+  const {descriptor} = unwrapValidator(spec);
+  if (descriptor?.kind !== `object`)
+    throw new Error(`Environment variables can only be bound to object validators`);
+
+  return descriptor;
+}
+
+function makeNodes(descriptor: ValidatorDescriptor, path: Array<PathSegment>, names: Array<string>, {prefix = ``, separator = `__`}: EnvOptions): Array<EnvNode> {
+  const nodes: Array<EnvNode> = [];
+
+  for (const [key, property] of Object.entries<AnyStrictValidator>(descriptor.options.properties)) {
+    const {validator, descriptor: propertyDescriptor, required} = unwrapValidator(property);
+
+    const subPath = [...path, key];
+    const subNames = [...names, toVariableName(key)];
+
+    const name = `${prefix}${subNames.join(separator)}`;
+
+    if (propertyDescriptor?.kind === `object`) {
+      nodes.push({kind: `object`, name, path: subPath, required, children: makeNodes(propertyDescriptor, subPath, subNames, {prefix, separator})});
+    } else {
+      nodes.push({kind: `variable`, name, path: subPath, required, validator});
+    }
+  }
+
+  return nodes;
+}
+
+function forEachVariable(nodes: Array<EnvNode>, fn: (node: EnvNode & {kind: `variable`}) => void) {
+  for (const node of nodes) {
+    if (node.kind === `variable`) {
+      fn(node);
+    } else {
+      forEachVariable(node.children, fn);
+    }
+  }
+}
+
+function buildInput(nodes: Array<EnvNode>, env: {[name: string]: string | undefined}, names: Map<string, string>) {
+  const input: {[key: string]: unknown} = {};
+  let hasValues = false;
+
+  for (const node of nodes) {
+    names.set(JSON.stringify(node.path), node.name);
+
+    const value = node.kind === `object`
+      ? buildInput(node.children, env, names)
+      : Object.prototype.hasOwnProperty.call(env, node.name) ? env[node.name] : undefined;
+
+    // Required objects are always created, so that the errors are reported on
+    // the missing variables rather than on the object itself
+    if (typeof value !== `undefined` || (node.kind === `object` && node.required)) {
+      input[node.path[node.path.length - 1]] = value ?? {};
+      hasValues = true;
+    }
+  }
+
+  return hasValues ? input : undefined;
+}
+
+/**
+ * List the environment variables that `fromEnv` would read for the given
+ * object validator, along with a description of their expected types.
+ */
+export function listEnvVariables(spec: AnyStrictValidator, opts: EnvOptions = {}): Array<EnvVariable> {
+  const variables: Array<EnvVariable> = [];
+
+  forEachVariable(makeNodes(getObjectDescriptor(spec), [], [], opts), ({name, path, validator, required}) => {
+    variables.push({name, path, type: describeValidatorType(validator), required});
+  });
+
+  return variables;
+}
+
+/**
+ * Build a value from the environment variables matching the properties of
+ * the given object validator, then validate it with coercion enabled. Nested
+ * objects are mapped to variables whose names are joined by the separator
+ * (for example `{database: {hostName}}` maps to `DATABASE__HOST_NAME`).
+ *
+ * Errors are reported against the names of the variables rather than the
+ * paths of the properties.
+ */
+export function fromEnv<T extends AnyStrictValidator>(spec: T, env: {[name: string]: string | undefined}, {catalog, ...opts}: EnvOptions & {catalog?: MessageCatalog} = {}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string>, issues: Array<EnvValidationIssue>} {
+  const names = new Map<string, string>();
+  const input = buildInput(makeNodes(getObjectDescriptor(spec), [], [], opts), env, names) ?? {};
+
+  const result = as(input, spec, {coerce: true, errors: true, catalog});
+  if (!(`issues` in result))
+    return result;
+
+  const issues = result.issues.map(issue => {
+    let depth = issue.path.length;
+    while (depth > 0 && !names.has(JSON.stringify(issue.path.slice(0, depth))))
+      depth -= 1;
+
+    const variable = depth > 0
+      ? names.get(JSON.stringify(issue.path.slice(0, depth)))!
+      : `.`;
+
+    // Values nested inside variables (for example array items) keep their path
+    const suffix = issue.path.slice(depth).map(segment => `[${JSON.stringify(segment)}]`).join(``);
+
+    return {...issue, variable: `${variable}${suffix}`};
+  });
+
+  const errors = issues.map(({variable, message}) => `${variable}: ${message}`);
+
+  return {value: result.value, errors, issues};
+}
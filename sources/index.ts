@@ -2,5 +2,11 @@ export * from './predicates/cascadingPredicates';
 export * from './predicates/typePredicates';
 export * from './predicates/helperPredicates';
 
+export * from './argv';
+export * from './compile';
+export * from './env';
+export * from './jsonSchema';
+export * from './messages';
+export * from './parse';
 export * from './tools';
 export * from './types';
@@ -1,37 +1,79 @@
-import {ValidationState} from '../types';
+import {defaultCatalog} from '../messages';
+import {MessageCatalog, MessageParams, PathSegment, ValidationState} from '../types';
 
 const simpleKeyRegExp = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
-export function getPrintable(value: unknown) {
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+function getPluralCategory(locale: string, count: number) {
+  let rules = pluralRules.get(locale);
+  if (typeof rules === `undefined`)
+    pluralRules.set(locale, rules = new Intl.PluralRules(locale));
+
+  return rules.select(count);
+}
+
+function getTemplate(catalog: MessageCatalog, id: string) {
+  if (Object.prototype.hasOwnProperty.call(catalog.messages, id))
+    return catalog.messages[id];
+
+  // Catalogs don't have to be complete; we use English for everything else
+  if (Object.prototype.hasOwnProperty.call(defaultCatalog.messages, id))
+    return defaultCatalog.messages[id];
+
+  return undefined;
+}
+
+export function formatMessage(catalog: MessageCatalog = defaultCatalog, id: string, params: MessageParams = {}) {
+  const pluralTemplate = typeof params.count === `number`
+    ? getTemplate(catalog, `${id}_${getPluralCategory(catalog.locale, params.count)}`) ?? getTemplate(catalog, `${id}_other`)
+    : undefined;
+
+  const template = pluralTemplate ?? getTemplate(catalog, id) ?? id;
+
+  return template.replace(/\{(\w+)\}/g, (match, name) => {
+    return Object.prototype.hasOwnProperty.call(params, name)
+      ? String(params[name])
+      : match;
+  });
+}
+
+export function getPrintable(value: unknown, catalog?: MessageCatalog) {
   if (value === null)
     return `null`;
   if (value === undefined)
     return `undefined`;
   if (value === ``)
-    return `an empty string`;
+    return formatMessage(catalog, `printEmptyString`);
   if (typeof value === 'symbol')
     return `<${value.toString()}>`;
+  if (typeof value === `bigint`)
+    return `${value}n`;
+  if (typeof value === `number` && !Number.isFinite(value))
+    return String(value);
+  if (value instanceof Date && isNaN(value.getTime()))
+    return `Invalid Date`;
   if (Array.isArray(value))
-    return `an array`;
+    return formatMessage(catalog, `printArray`);
 
   return JSON.stringify(value);
 }
 
-export function getPrintableArray(value: unknown[], conjunction: string) {
+export function getPrintableArray(value: unknown[], conjunction: `and` | `or`, catalog?: MessageCatalog) {
   if (value.length === 0)
-    return `nothing`;
+    return formatMessage(catalog, `listEmpty`);
 
   if (value.length === 1)
-    return getPrintable(value[0]);
+    return getPrintable(value[0], catalog);
 
-  const rest = value.slice(0, -1);
-  const trailing = value[value.length - 1];
+  const head = value.slice(0, -1).map(value => getPrintable(value, catalog)).join(formatMessage(catalog, `listSeparator`));
+  const tail = getPrintable(value[value.length - 1], catalog);
 
-  const separator = value.length > 2
-    ? `, ${conjunction} `
-    : ` ${conjunction} `;
+  const id = conjunction === `and`
+    ? value.length > 2 ? `listAndMany` : `listAnd`
+    : value.length > 2 ? `listOrMany` : `listOr`;
 
-  return `${rest.map(value => getPrintable(value)).join(`, `)}${separator}${getPrintable(trailing)}`;
+  return formatMessage(catalog, id, {head, tail});
 }
 
 export function computeKey(state: ValidationState | undefined, key: string | number) {
@@ -44,6 +86,10 @@ export function computeKey(state: ValidationState | undefined, key: string | num
   }
 }
 
-export function plural(n: number, singular: string, plural: string) {
-  return n === 1 ? singular : plural;
+export function computePath(state: ValidationState | undefined, key: PathSegment) {
+  // We only need to keep track of the path segments when the issues are actually collected
+  if (typeof state?.issues === `undefined`)
+    return undefined;
+
+  return [...state.path ?? [], key];
 }
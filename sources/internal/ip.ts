@@ -0,0 +1,193 @@
+import {
+  ipv4RegExp,
+} from './regexps';
+
+import {
+  IPVersion,
+} from '../types';
+
+export type ParsedIPv6 = {
+  hextets: Array<number>,
+  zone: string | null,
+};
+
+const hextetRegExp = /^[0-9a-fA-F]{1,4}$/;
+const cidrRegExp = /^([^/%]+)\/(0|[1-9][0-9]{0,2})$/;
+
+// https://datatracker.ietf.org/doc/html/rfc6874#section-2
+const zoneRegExp = /^[0-9a-zA-Z._~-]+$/;
+
+export function parseIPv4(value: string) {
+  if (!ipv4RegExp.test(value))
+    return null;
+
+  return value.split(`.`).map(Number);
+}
+
+function parseHextets(segment: string, {allowIPv4}: {allowIPv4: boolean}) {
+  if (segment === ``)
+    return [];
+
+  const parts = segment.split(`:`);
+  const hextets: Array<number> = [];
+
+  for (let t = 0; t < parts.length; ++t) {
+    const part = parts[t];
+
+    // The last 32 bits can be written in dotted notation (::ffff:192.0.2.1)
+    if (allowIPv4 && t === parts.length - 1 && part.includes(`.`)) {
+      const bytes = parseIPv4(part);
+      if (bytes === null)
+        return null;
+
+      hextets.push(bytes[0] << 8 | bytes[1], bytes[2] << 8 | bytes[3]);
+    } else if (hextetRegExp.test(part)) {
+      hextets.push(parseInt(part, 16));
+    } else {
+      return null;
+    }
+  }
+
+  return hextets;
+}
+
+/**
+ * Parse an IPv6 address as described by RFC 4291, including the compressed
+ * `::` form, the dotted IPv4 suffix, and the zone identifiers (`fe80::1%eth0`).
+ */
+export function parseIPv6(value: string): ParsedIPv6 | null {
+  const zoneIndex = value.indexOf(`%`);
+
+  const address = zoneIndex !== -1 ? value.slice(0, zoneIndex) : value;
+  const zone = zoneIndex !== -1 ? value.slice(zoneIndex + 1) : null;
+
+  if (zone !== null && !zoneRegExp.test(zone))
+    return null;
+
+  const halves = address.split(`::`);
+  if (halves.length > 2)
+    return null;
+
+  if (halves.length === 1) {
+    const hextets = parseHextets(address, {allowIPv4: true});
+    return hextets !== null && hextets.length === 8 ? {hextets, zone} : null;
+  }
+
+  const head = parseHextets(halves[0], {allowIPv4: false});
+  const tail = parseHextets(halves[1], {allowIPv4: true});
+
+  // The `::` must stand for at least one group
+  if (head === null || tail === null || head.length + tail.length > 7)
+    return null;
+
+  const padding = new Array<number>(8 - head.length - tail.length).fill(0);
+  return {hextets: [...head, ...padding, ...tail], zone};
+}
+
+/**
+ * Format an IPv6 address in its canonical form, as described by RFC 5952:
+ * lowercase, without leading zeros, and with the longest run of zero groups
+ * compressed.
+ */
+export function formatIPv6({hextets, zone}: ParsedIPv6) {
+  const suffix = zone !== null ? `%${zone}` : ``;
+
+  // IPv4-mapped addresses keep their dotted notation (RFC 5952, section 5)
+  if (hextets.slice(0, 5).every(hextet => hextet === 0) && hextets[5] === 0xffff)
+    return `::ffff:${hextets[6] >> 8}.${hextets[6] & 0xff}.${hextets[7] >> 8}.${hextets[7] & 0xff}${suffix}`;
+
+  // A single zero group isn't compressed, and the first run wins on ties
+  let runStart = -1;
+  let runLength = 1;
+
+  for (let t = 0; t < hextets.length;) {
+    if (hextets[t] !== 0) {
+      t += 1;
+      continue;
+    }
+
+    let end = t;
+    while (end < hextets.length && hextets[end] === 0)
+      end += 1;
+
+    if (end - t > runLength) {
+      runStart = t;
+      runLength = end - t;
+    }
+
+    t = end;
+  }
+
+  const groups = hextets.map(hextet => hextet.toString(16));
+  if (runStart === -1)
+    return `${groups.join(`:`)}${suffix}`;
+
+  return `${groups.slice(0, runStart).join(`:`)}::${groups.slice(runStart + runLength).join(`:`)}${suffix}`;
+}
+
+/**
+ * Return the canonical form of the given IP address, or null if it isn't a
+ * valid address of the requested version (either version if unspecified).
+ */
+export function getCanonicalIP(value: string, version?: IPVersion) {
+  if (version !== 6 && parseIPv4(value) !== null)
+    return value;
+
+  if (version !== 4) {
+    const parsed = parseIPv6(value);
+    if (parsed !== null) {
+      return formatIPv6(parsed);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Return the canonical form of the given CIDR block (an address followed by a
+ * prefix length), or null if it isn't valid. Zone identifiers aren't allowed.
+ */
+export function getCanonicalCIDR(value: string, version?: IPVersion) {
+  const match = value.match(cidrRegExp);
+  if (match === null)
+    return null;
+
+  const prefix = Number(match[2]);
+
+  if (version !== 6 && parseIPv4(match[1]) !== null)
+    return prefix <= 32 ? value : null;
+
+  if (version !== 4) {
+    const parsed = parseIPv6(match[1]);
+    if (parsed !== null && prefix <= 128) {
+      return `${formatIPv6(parsed)}/${prefix}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether the given IP address refers to the local machine (either a
+ * loopback or an unspecified address, including their IPv4-mapped forms).
+ */
+export function isLocalIP(value: string) {
+  const ipv4 = parseIPv4(value);
+  if (ipv4 !== null)
+    return ipv4[0] === 127 || ipv4.every(byte => byte === 0);
+
+  const ipv6 = parseIPv6(value);
+  if (ipv6 === null)
+    return false;
+
+  const {hextets} = ipv6;
+
+  // `::` and `::1`
+  if (hextets.slice(0, 7).every(hextet => hextet === 0))
+    return hextets[7] <= 1;
+
+  if (hextets.slice(0, 5).every(hextet => hextet === 0) && hextets[5] === 0xffff)
+    return hextets[6] >> 8 === 127 || (hextets[6] === 0 && hextets[7] === 0);
+
+  return false;
+}
@@ -1,11 +1,98 @@
+import {
+  formatMessage,
+  getPrintable,
+} from './format';
+
 import {
   BoundCoercionFn,
   CoercionFn,
+  LooseTest,
+  LooseValidator,
+  MessageParams,
+  StrictTest,
+  StrictValidator,
+  ValidationIssue,
   ValidationState,
+  ValidatorDescriptor,
 } from '../types';
 
-export function pushError({errors, p}: ValidationState = {}, message: string) {
+const descriptors = new WeakMap<LooseTest<any>, ValidatorDescriptor>();
+
+export function setDescriptor(validator: LooseTest<any>, descriptor: ValidatorDescriptor) {
+  descriptors.set(validator, descriptor);
+}
+
+export function getDescriptor(validator: LooseTest<any>) {
+  return descriptors.get(validator) ?? null;
+}
+
+// Anyone can attach any descriptor through `makeValidator`, so we also keep
+// track of the validators created by the builtin factories, whose tests are
+// guaranteed to match their descriptors
+const builtinValidators = new WeakSet<LooseTest<any>>();
+
+export function isBuiltinValidator(validator: LooseTest<any>) {
+  return builtinValidators.has(validator);
+}
+
+/**
+ * Same as `makeValidator`, but flags the validator as builtin; only meant to
+ * be used by the predicates shipped with Typanion.
+ */
+export function makeBuiltinValidator<U, V extends U>({test, descriptor}: {test: StrictTest<U, V>, descriptor: ValidatorDescriptor}): StrictValidator<U, V>;
+export function makeBuiltinValidator<U, V extends U = U>({test, descriptor}: {test: LooseTest<U>, descriptor: ValidatorDescriptor}): LooseValidator<U, V>;
+export function makeBuiltinValidator<U, V extends U>({test, descriptor}: {test: StrictTest<U, V> | LooseTest<U>, descriptor: ValidatorDescriptor}) {
+  setDescriptor(test, descriptor);
+  builtinValidators.add(test);
+
+  return test as LooseValidator<U, V>;
+}
+
+/**
+ * Return the name of the given URL protocol, lowercase and without its
+ * trailing colon (`HTTPS:` becomes `https`), so that both the `url.protocol`
+ * convention and the bare names can be used in the options.
+ */
+export function getProtocolName(protocol: string) {
+  return protocol.toLowerCase().replace(/:$/, ``);
+}
+
+export type IssueDetails = Omit<ValidationIssue, `path` | `message`>;
+
+/**
+ * Count an error against the error limit, returning false if it shouldn't
+ * be reported because the limit has been reached.
+ */
+export function reserveError({errorLimit}: ValidationState = {}) {
+  if (typeof errorLimit === `undefined`)
+    return true;
+
+  errorLimit.count += 1;
+  return errorLimit.count <= errorLimit.max;
+}
+
+/**
+ * Whether a loop validating the children of a value should stop after
+ * having validated one of them.
+ */
+export function shouldStop(state: ValidationState | undefined, valid: boolean) {
+  return !valid && (state?.errors == null || state.abortEarly === true);
+}
+
+export function pushError(state: ValidationState = {}, id: string, params: MessageParams, details: IssueDetails) {
+  const {errors, issues, p, path, catalog} = state;
+
+  // No need to format the message if nobody will read it
+  if (typeof errors === `undefined` && typeof issues === `undefined`)
+    return false;
+
+  if (!reserveError(state))
+    return false;
+
+  const message = formatMessage(catalog, id, params);
+
   errors?.push(`${p ?? `.`}: ${message}`);
+  issues?.push({path: path ?? [], message, ...details});
   return false;
 }
 
@@ -36,3 +123,64 @@ export function makeLazyCoercionFn(fn: CoercionFn, orig: any, generator: () => a
 
   return commit;
 }
+
+export async function resolvePending(pending: Array<Promise<boolean>>) {
+  let valid = true;
+
+  // The array may grow while we're waiting (for instance when a cascade
+  // runs its followups), so we can't just use Promise.all
+  for (let t = 0; t < pending.length; ++t)
+    valid = await pending[t] && valid;
+
+  return valid;
+}
+
+// Those wrappers don't change the shape of the value, so we can look through them
+const TRANSPARENT_KINDS = new Set([`nullable`, `cascade`, `transform`]);
+const OPTIONAL_KINDS = new Set([`optional`, `default`]);
+
+export function unwrapValidator(validator: LooseTest<any>) {
+  let required = true;
+
+  for (let descriptor = getDescriptor(validator); descriptor !== null; descriptor = getDescriptor(validator)) {
+    if (OPTIONAL_KINDS.has(descriptor.kind)) {
+      required = false;
+    } else if (!TRANSPARENT_KINDS.has(descriptor.kind)) {
+      break;
+    }
+
+    validator = descriptor.options.spec;
+  }
+
+  return {validator, descriptor: getDescriptor(validator), required};
+}
+
+export function describeValidatorType(validator: LooseTest<any>): string {
+  const {descriptor} = unwrapValidator(validator);
+  if (descriptor === null)
+    return `unknown`;
+
+  const {kind, options} = descriptor;
+
+  switch (kind) {
+    case `literal`:
+      return getPrintable(options.expected);
+
+    case `enum`:
+      return options.values.map((value: unknown) => getPrintable(value)).join(` | `);
+
+    case `array`:
+    case `set`: {
+      const itemType = `${describeValidatorType(options.spec)}[]`;
+      return typeof options.delimiter === `string`
+        ? `${itemType} (separated by ${JSON.stringify(options.delimiter)})`
+        : itemType;
+    }
+
+    case `payload`:
+      return `json`;
+
+    default:
+      return kind;
+  }
+}
@@ -0,0 +1,697 @@
+import {
+  e164PhoneRegExp,
+  mimeTypeRegExp,
+  mimeTypeWithParametersRegExp,
+  semverRegExp,
+  slugRegExp,
+} from './internal/regexps';
+
+import {
+  getDescriptor,
+} from './internal/tools';
+
+import {
+  hasMaxLength,
+  hasMinLength,
+  hasUniqueItems,
+  isAtLeast,
+  isAtMost,
+  isBase64,
+  isEmail,
+  isHostname,
+  isHttpUrl,
+  isInExclusiveRange,
+  isInteger,
+  isIPv4,
+  isIPv6,
+  isISO8601,
+  isJSON,
+  isUUID4,
+  matchesRegExp,
+} from './predicates/cascadingPredicates';
+
+import {
+  cascade,
+  hasRequiredKeys,
+  isOptional,
+} from './predicates/helperPredicates';
+
+import {
+  isArray,
+  isBoolean,
+  isEnum,
+  isLiteral,
+  isNumber,
+  isObject,
+  isOneOf,
+  isRecord,
+  isString,
+  isTuple,
+  isUnknown,
+} from './predicates/typePredicates';
+
+import {
+  AnyStrictValidator,
+  LooseTest,
+  StrictValidator,
+} from './types';
+
+export type JsonSchemaType = `string` | `number` | `integer` | `boolean` | `null` | `array` | `object`;
+
+export type JsonSchema = boolean | JsonSchemaObject;
+
+export type JsonSchemaObject = {
+  $schema?: string,
+  $id?: string,
+  $ref?: string,
+  $defs?: {[key: string]: JsonSchema},
+
+  type?: JsonSchemaType | Array<JsonSchemaType>,
+  const?: unknown,
+  enum?: Array<unknown>,
+
+  properties?: {[key: string]: JsonSchema},
+  required?: Array<string>,
+  additionalProperties?: JsonSchema,
+  propertyNames?: JsonSchema,
+
+  items?: JsonSchema,
+  prefixItems?: Array<JsonSchema>,
+  minItems?: number,
+  maxItems?: number,
+  uniqueItems?: boolean,
+
+  minLength?: number,
+  maxLength?: number,
+  pattern?: string,
+  format?: string,
+
+  contentEncoding?: string,
+  contentMediaType?: string,
+  contentSchema?: JsonSchema,
+
+  minimum?: number,
+  maximum?: number,
+  exclusiveMaximum?: number,
+
+  anyOf?: Array<JsonSchema>,
+  oneOf?: Array<JsonSchema>,
+  allOf?: Array<JsonSchema>,
+
+  [key: string]: unknown,
+};
+
+const JSON_SCHEMA_DIALECT = `https://json-schema.org/draft/2020-12/schema`;
+
+function getKnownDescriptor(validator: LooseTest<any>) {
+  const descriptor = getDescriptor(validator);
+  if (descriptor === null)
+    throw new Error(`Validators without descriptors cannot be converted into JSON Schema`);
+
+  return descriptor;
+}
+
+function acceptsUndefined(validator: LooseTest<any>): boolean {
+  const {kind, options} = getKnownDescriptor(validator);
+
+  switch (kind) {
+    case `unknown`:
+    case `optional`:
+    case `default`:
+      return true;
+
+    case `literal`:
+      return typeof options.expected === `undefined`;
+
+    case `nullable`:
+    case `cascade`:
+    case `transform`:
+      return acceptsUndefined(options.spec);
+
+    case `oneOf`:
+      return options.specs.some(acceptsUndefined);
+
+    case `allOf`:
+      return options.specs.every(acceptsUndefined);
+
+    default:
+      return false;
+  }
+}
+
+function withLength(schema: JsonSchemaObject, min: number | undefined, max: number | undefined): JsonSchemaObject {
+  if (schema.type !== `string` && schema.type !== `array`)
+    return schema;
+
+  const [minKeyword, maxKeyword] = schema.type === `string`
+    ? [`minLength`, `maxLength`]
+    : [`minItems`, `maxItems`];
+
+  return {
+    ...schema,
+    ...typeof min !== `undefined` ? {[minKeyword]: min} : {},
+    ...typeof max !== `undefined` ? {[maxKeyword]: max} : {},
+  };
+}
+
+// JSON has no bigints, so the bounds must be converted into regular numbers
+function getJsonNumber(value: number | bigint) {
+  if (typeof value === `number`)
+    return value;
+
+  if (value < BigInt(Number.MIN_SAFE_INTEGER) || value > BigInt(Number.MAX_SAFE_INTEGER))
+    throw new Error(`The bigint bound ${value}n cannot be represented in JSON Schema without losing precision`);
+
+  return Number(value);
+}
+
+function withNumeric(schema: JsonSchemaObject, keywords: {[keyword: string]: number | bigint}): JsonSchemaObject {
+  if (schema.type !== `number` && schema.type !== `integer`)
+    return schema;
+
+  const converted: JsonSchemaObject = {...schema};
+  for (const [keyword, value] of Object.entries(keywords))
+    converted[keyword] = getJsonNumber(value);
+
+  return converted;
+}
+
+function withString(schema: JsonSchemaObject, keywords: JsonSchemaObject): JsonSchemaObject {
+  if (schema.type !== `string`)
+    return schema;
+
+  return {...schema, ...keywords};
+}
+
+const converters: {[kind: string]: (options: any) => JsonSchemaObject} = {
+  unknown: () => ({}),
+
+  literal: ({expected}) => {
+    if (typeof expected === `undefined`)
+      throw new Error(`The undefined literal cannot be represented in JSON Schema`);
+
+    return {const: expected};
+  },
+
+  string: () => ({type: `string`}),
+  number: () => ({type: `number`}),
+  duration: () => ({type: `number`}),
+  byteSize: () => ({type: `number`}),
+  boolean: () => ({type: `boolean`}),
+  date: () => ({type: `string`, format: `date-time`}),
+  url: () => ({type: `string`, format: `uri`}),
+
+  enum: ({values}) => ({enum: [...new Set(values)]}),
+
+  payload: ({spec}) => ({type: `string`, contentMediaType: `application/json`, contentSchema: convertValidator(spec)}),
+
+  array: ({spec}) => ({type: `array`, items: convertValidator(spec)}),
+  set: ({spec}) => ({type: `array`, items: convertValidator(spec), uniqueItems: true}),
+
+  tuple: ({spec}) => ({
+    type: `array`,
+    prefixItems: spec.map(convertValidator),
+    items: false,
+    minItems: spec.length,
+  }),
+
+  record: ({spec, keys}) => ({
+    type: `object`,
+    additionalProperties: convertValidator(spec),
+    ...keys !== null ? {propertyNames: convertValidator(keys)} : {},
+  }),
+
+  object: ({properties, extra, unknownKeys}) => {
+    const schema: JsonSchemaObject = {
+      type: `object`,
+      properties: {},
+    };
+
+    const required: Array<string> = [];
+    for (const [key, spec] of Object.entries<AnyStrictValidator>(properties)) {
+      schema.properties![key] = convertValidator(spec);
+      if (!acceptsUndefined(spec)) {
+        required.push(key);
+      }
+    }
+
+    if (required.length > 0)
+      schema.required = required;
+
+    if (extra === null) {
+      // Stripped properties are accepted, they just won't be part of the output
+      if (unknownKeys === `reject`) {
+        schema.additionalProperties = false;
+      }
+    } else {
+      // The `extra` spec validates an object containing all the extraneous
+      // properties at once, which we can only express when it's a record
+      const extraDescriptor = getKnownDescriptor(extra);
+      if (extraDescriptor.kind === `record`) {
+        const {additionalProperties, propertyNames} = converters.record(extraDescriptor.options);
+        schema.additionalProperties = additionalProperties;
+
+        if (typeof propertyNames !== `undefined`) {
+          schema.propertyNames = propertyNames;
+        }
+      }
+    }
+
+    return schema;
+  },
+
+  optional: ({spec}) => convertValidator(spec),
+  transform: ({spec}) => convertValidator(spec),
+
+  default: ({spec, value}) => typeof value !== `function`
+    ? {...convertValidator(spec), default: value}
+    : convertValidator(spec),
+  nullable: ({spec}) => ({anyOf: [convertValidator(spec), {type: `null`}]}),
+
+  oneOf: ({specs, exclusive}) => exclusive
+    ? {oneOf: specs.map(convertValidator)}
+    : {anyOf: specs.map(convertValidator)},
+
+  allOf: ({specs}) => ({allOf: specs.map(convertValidator)}),
+
+  discriminatedUnion: ({variants}) => ({oneOf: Object.values<AnyStrictValidator>(variants).map(convertValidator)}),
+
+  cascade: ({spec, followups}) => {
+    let schema = convertValidator(spec);
+
+    for (const followup of followups) {
+      const descriptor = getDescriptor(followup);
+      if (descriptor === null)
+        continue;
+
+      // Followups we can't express only make the generated schema looser,
+      // so we can safely skip them
+      const refinement = refinements[descriptor.kind];
+      if (typeof refinement !== `undefined`) {
+        schema = refinement(schema, descriptor.options);
+      }
+    }
+
+    return schema;
+  },
+};
+
+const refinements: {[kind: string]: (schema: JsonSchemaObject, options: any) => JsonSchemaObject} = {
+  minLength: (schema, {length}) => withLength(schema, length, undefined),
+  maxLength: (schema, {length}) => withLength(schema, undefined, length),
+  exactLength: (schema, {length}) => withLength(schema, length, length),
+
+  uniqueItems: (schema, {map}) => schema.type === `array` && typeof map === `undefined`
+    ? {...schema, uniqueItems: true}
+    : schema,
+
+  negative: schema => withNumeric(schema, {maximum: 0}),
+  positive: schema => withNumeric(schema, {minimum: 0}),
+  atLeast: (schema, {n}) => withNumeric(schema, {minimum: n}),
+  atMost: (schema, {n}) => withNumeric(schema, {maximum: n}),
+  inInclusiveRange: (schema, {a, b}) => withNumeric(schema, {minimum: a, maximum: b}),
+  inExclusiveRange: (schema, {a, b}) => withNumeric(schema, a !== -Infinity
+    ? {minimum: a, exclusiveMaximum: b}
+    : {exclusiveMaximum: b}),
+
+  // JSON numbers are always finite
+  finite: schema => schema,
+
+  integer: schema => schema.type === `number`
+    ? {...schema, type: `integer`}
+    : schema,
+
+  // JSON Schema patterns don't support flags; we can't translate those that
+  // would change the meaning of the expression
+  regExp: (schema, {regExp}) => /^[gu]*$/.test(regExp.flags)
+    ? withString(schema, {pattern: regExp.source})
+    : schema,
+
+  uuid4: schema => withString(schema, {format: `uuid`}),
+  iso8601: schema => withString(schema, {format: `date-time`}),
+  base64: schema => withString(schema, {contentEncoding: `base64`}),
+  email: schema => withString(schema, {format: `email`}),
+  // The `uri` format doesn't restrict the protocols
+  httpUrl: schema => withString(schema, {format: `uri`}),
+  hostname: schema => withString(schema, {format: `hostname`}),
+  semver: schema => withString(schema, {pattern: semverRegExp.source}),
+  slug: schema => withString(schema, {pattern: slugRegExp.source}),
+  e164Phone: schema => withString(schema, {pattern: e164PhoneRegExp.source}),
+  mimeType: (schema, {parameters}) => withString(schema, {pattern: (parameters ? mimeTypeWithParametersRegExp : mimeTypeRegExp).source}),
+  ipv4: schema => withString(schema, {format: `ipv4`}),
+  // Zone identifiers aren't part of the JSON Schema `ipv6` format
+  ipv6: schema => withString(schema, {format: `ipv6`}),
+  ip: (schema, {version}) => typeof version !== `undefined`
+    ? withString(schema, {format: `ipv${version}`})
+    : schema,
+  port: schema => schema.type === `number` || schema.type === `integer`
+    ? {...schema, type: `integer`, minimum: 1, maximum: 65535}
+    : schema,
+  json: (schema, {spec}) => withString(schema, {contentMediaType: `application/json`, contentSchema: convertValidator(spec)}),
+};
+
+function convertValidator(validator: LooseTest<any>): JsonSchemaObject {
+  const {kind, options} = getKnownDescriptor(validator);
+
+  const converter = converters[kind];
+  if (typeof converter === `undefined`)
+    throw new Error(`Validators of kind "${kind}" cannot be converted into JSON Schema`);
+
+  return converter(options);
+}
+
+/**
+ * Generate a JSON Schema (draft 2020-12) describing the values accepted by
+ * the given validator. Cascading predicates that can't be expressed in JSON
+ * Schema are ignored, which may make the resulting schema looser than the
+ * validator itself.
+ */
+export function toJsonSchema(validator: AnyStrictValidator): JsonSchemaObject {
+  return {$schema: JSON_SCHEMA_DIALECT, ...convertValidator(validator)};
+}
+
+type JsonSchemaContext = {
+  root: JsonSchema,
+  cache: Map<string, AnyStrictValidator>,
+  resolving: Set<string>,
+};
+
+const ANNOTATION_KEYWORDS = new Set([
+  `$schema`, `$id`, `$comment`, `$defs`, `definitions`,
+  `title`, `description`, `default`, `examples`, `deprecated`, `readOnly`, `writeOnly`,
+]);
+
+const STRING_KEYWORDS = [`minLength`, `maxLength`, `pattern`, `format`, `contentEncoding`, `contentMediaType`, `contentSchema`];
+const NUMBER_KEYWORDS = [`minimum`, `maximum`, `exclusiveMaximum`];
+const ARRAY_KEYWORDS = [`items`, `prefixItems`, `minItems`, `maxItems`, `uniqueItems`];
+const OBJECT_KEYWORDS = [`properties`, `required`, `additionalProperties`, `propertyNames`];
+
+const SUPPORTED_KEYWORDS = new Set([
+  `type`, `const`, `enum`, `$ref`, `anyOf`, `oneOf`, `allOf`,
+  ...STRING_KEYWORDS,
+  ...NUMBER_KEYWORDS,
+  ...ARRAY_KEYWORDS,
+  ...OBJECT_KEYWORDS,
+]);
+
+const JSON_SCHEMA_FORMATS: {[format: string]: () => LooseTest<string>} = {
+  [`date-time`]: () => isISO8601(),
+  [`email`]: () => isEmail(),
+  [`hostname`]: () => isHostname(),
+  [`ipv4`]: () => isIPv4(),
+  [`ipv6`]: () => isIPv6(),
+  [`uri`]: () => isHttpUrl({protocols: null}),
+  [`uuid`]: () => isUUID4(),
+};
+
+function isPrimitive(value: unknown): value is null | boolean | number | string {
+  return value === null || typeof value === `boolean` || typeof value === `number` || typeof value === `string`;
+}
+
+function hasSomeKeyword(schema: JsonSchemaObject, keywords: Array<string>) {
+  return keywords.some(keyword => Object.prototype.hasOwnProperty.call(schema, keyword));
+}
+
+function withFollowups(spec: AnyStrictValidator, followups: Array<LooseTest<any>>): AnyStrictValidator {
+  return followups.length > 0
+    ? cascade(spec, followups)
+    : spec;
+}
+
+function resolveReference(ref: string, context: JsonSchemaContext): AnyStrictValidator {
+  if (!ref.startsWith(`#`))
+    throw new Error(`Only local references are supported (got ${JSON.stringify(ref)})`);
+
+  // Anchors (`#foo`) aren't JSON pointers, so we can't resolve them
+  if (ref !== `#` && !ref.startsWith(`#/`))
+    throw new Error(`Unsupported reference ${JSON.stringify(ref)}; only JSON pointers are supported`);
+
+  const cached = context.cache.get(ref);
+  if (typeof cached !== `undefined`)
+    return cached;
+
+  if (context.resolving.has(ref))
+    throw new Error(`Recursive references aren't supported (${JSON.stringify(ref)})`);
+
+  const segments = ref.slice(1).split(`/`).slice(1).map(segment => {
+    return decodeURIComponent(segment).replace(/~1/g, `/`).replace(/~0/g, `~`);
+  });
+
+  let target: unknown = context.root;
+  for (const segment of segments) {
+    if (typeof target !== `object` || target === null || !Object.prototype.hasOwnProperty.call(target, segment))
+      throw new Error(`Couldn't resolve reference ${JSON.stringify(ref)}`);
+
+    target = (target as any)[segment];
+  }
+
+  context.resolving.add(ref);
+  try {
+    const validator = convertSchema(target as JsonSchema, ref, context);
+    context.cache.set(ref, validator);
+    return validator;
+  } finally {
+    context.resolving.delete(ref);
+  }
+}
+
+function convertStringSchema(schema: JsonSchemaObject, pointer: string, context: JsonSchemaContext) {
+  const followups: Array<LooseTest<string>> = [];
+
+  if (typeof schema.minLength !== `undefined`)
+    followups.push(hasMinLength(schema.minLength));
+  if (typeof schema.maxLength !== `undefined`)
+    followups.push(hasMaxLength(schema.maxLength));
+  if (typeof schema.pattern !== `undefined`)
+    followups.push(matchesRegExp(new RegExp(schema.pattern, `u`)));
+
+  if (typeof schema.format !== `undefined`) {
+    const format = JSON_SCHEMA_FORMATS[schema.format];
+    if (typeof format === `undefined`)
+      throw new Error(`Unsupported JSON Schema format ${JSON.stringify(schema.format)} (at ${pointer})`);
+
+    followups.push(format());
+  }
+
+  if (typeof schema.contentEncoding !== `undefined`) {
+    if (schema.contentEncoding !== `base64`)
+      throw new Error(`Unsupported JSON Schema content encoding ${JSON.stringify(schema.contentEncoding)} (at ${pointer})`);
+
+    followups.push(isBase64());
+  }
+
+  if (typeof schema.contentSchema !== `undefined` && typeof schema.contentMediaType === `undefined`)
+    throw new Error(`The "contentSchema" keyword requires "contentMediaType" to be set (at ${pointer})`);
+
+  if (typeof schema.contentMediaType !== `undefined`) {
+    if (schema.contentMediaType !== `application/json`)
+      throw new Error(`Unsupported JSON Schema content media type ${JSON.stringify(schema.contentMediaType)} (at ${pointer})`);
+
+    followups.push(typeof schema.contentSchema !== `undefined`
+      ? isJSON(convertSchema(schema.contentSchema, `${pointer}/contentSchema`, context))
+      : isJSON());
+  }
+
+  return withFollowups(isString(), followups);
+}
+
+function convertNumberSchema(schema: JsonSchemaObject, integer: boolean) {
+  const followups: Array<LooseTest<number>> = [];
+
+  if (integer)
+    followups.push(isInteger());
+
+  if (typeof schema.minimum !== `undefined`)
+    followups.push(isAtLeast(schema.minimum));
+  if (typeof schema.maximum !== `undefined`)
+    followups.push(isAtMost(schema.maximum));
+  if (typeof schema.exclusiveMaximum !== `undefined`)
+    followups.push(isInExclusiveRange(-Infinity, schema.exclusiveMaximum));
+
+  return withFollowups(isNumber(), followups);
+}
+
+function convertArraySchema(schema: JsonSchemaObject, pointer: string, context: JsonSchemaContext) {
+  const followups: Array<LooseTest<Array<unknown>>> = [];
+
+  let spec: AnyStrictValidator;
+  if (typeof schema.prefixItems !== `undefined`) {
+    if (schema.items !== false)
+      throw new Error(`Tuples must set "items" to false to be supported (at ${pointer})`);
+
+    const items = schema.prefixItems.map((item, index) => {
+      return convertSchema(item, `${pointer}/prefixItems/${index}`, context);
+    });
+
+    // The prefix items don't have to be all present unless `minItems` says
+    // so, hence one tuple per allowed length (the longest first, so that its
+    // errors are reported first)
+    const minLength = Math.min(schema.minItems ?? 0, items.length);
+
+    const tuples: Array<AnyStrictValidator> = [];
+    for (let length = items.length; length >= minLength; --length)
+      tuples.push(isTuple(items.slice(0, length)));
+
+    spec = tuples.length === 1
+      ? tuples[0]
+      : isOneOf(tuples);
+  } else {
+    spec = isArray(typeof schema.items !== `undefined`
+      ? convertSchema(schema.items, `${pointer}/items`, context)
+      : isUnknown());
+  }
+
+  if (typeof schema.minItems !== `undefined`)
+    followups.push(hasMinLength(schema.minItems));
+  if (typeof schema.maxItems !== `undefined`)
+    followups.push(hasMaxLength(schema.maxItems));
+  if (schema.uniqueItems === true)
+    followups.push(hasUniqueItems());
+
+  return withFollowups(spec, followups);
+}
+
+function convertObjectSchema(schema: JsonSchemaObject, pointer: string, context: JsonSchemaContext) {
+  const required = new Set(schema.required ?? []);
+  const followups: Array<LooseTest<{[key: string]: unknown}>> = [];
+
+  const properties: {[key: string]: AnyStrictValidator} = {};
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const spec = convertSchema(property, `${pointer}/properties/${key}`, context);
+
+    properties[key] = required.has(key)
+      ? spec
+      : isOptional(spec);
+  }
+
+  const missingRequiredKeys = [...required].filter(key => {
+    return !Object.prototype.hasOwnProperty.call(properties, key);
+  });
+
+  if (missingRequiredKeys.length > 0)
+    followups.push(hasRequiredKeys(missingRequiredKeys));
+
+  const keys = typeof schema.propertyNames !== `undefined`
+    ? convertSchema(schema.propertyNames, `${pointer}/propertyNames`, context)
+    : null;
+
+  if (keys !== null && Object.keys(properties).length > 0)
+    throw new Error(`The "propertyNames" keyword can't be combined with "properties" (at ${pointer})`);
+
+  const extra = schema.additionalProperties === false
+    ? null
+    : isRecord(typeof schema.additionalProperties === `undefined`
+      ? isUnknown()
+      : convertSchema(schema.additionalProperties, `${pointer}/additionalProperties`, context), {keys});
+
+  return withFollowups(isObject(properties, {extra}), followups);
+}
+
+function convertTypedSchema(type: JsonSchemaType, schema: JsonSchemaObject, pointer: string, context: JsonSchemaContext): AnyStrictValidator {
+  switch (type) {
+    case `null`:
+      return isLiteral(null);
+
+    case `boolean`:
+      return isBoolean();
+
+    case `string`:
+      return convertStringSchema(schema, pointer, context);
+
+    case `number`:
+    case `integer`:
+      return convertNumberSchema(schema, type === `integer`);
+
+    case `array`:
+      return convertArraySchema(schema, pointer, context);
+
+    case `object`:
+      return convertObjectSchema(schema, pointer, context);
+
+    default:
+      throw new Error(`Unsupported JSON Schema type ${JSON.stringify(type)} (at ${pointer})`);
+  }
+}
+
+function getImpliedTypes(schema: JsonSchemaObject): Array<JsonSchemaType> {
+  const types: Array<JsonSchemaType> = [];
+
+  if (hasSomeKeyword(schema, STRING_KEYWORDS))
+    types.push(`string`);
+  if (hasSomeKeyword(schema, NUMBER_KEYWORDS))
+    types.push(`number`);
+  if (hasSomeKeyword(schema, ARRAY_KEYWORDS))
+    types.push(`array`);
+  if (hasSomeKeyword(schema, OBJECT_KEYWORDS))
+    types.push(`object`);
+
+  return types;
+}
+
+function convertSchema(schema: JsonSchema, pointer: string, context: JsonSchemaContext): AnyStrictValidator {
+  if (schema === true)
+    return isUnknown();
+
+  if (schema === false)
+    throw new Error(`The false schema is only supported as "additionalProperties" or "items" (at ${pointer})`);
+
+  for (const keyword of Object.keys(schema))
+    if (!SUPPORTED_KEYWORDS.has(keyword) && !ANNOTATION_KEYWORDS.has(keyword))
+      throw new Error(`Unsupported JSON Schema keyword ${JSON.stringify(keyword)} (at ${pointer})`);
+
+  const specs: Array<AnyStrictValidator> = [];
+
+  const types = typeof schema.type !== `undefined`
+    ? Array.isArray(schema.type) ? schema.type : [schema.type]
+    : getImpliedTypes(schema);
+
+  if (types.length > 0) {
+    const typedSpecs = types.map(type => convertTypedSchema(type, schema, pointer, context));
+    specs.push(typedSpecs.length === 1 ? typedSpecs[0] : isOneOf(typedSpecs));
+  }
+
+  if (Object.prototype.hasOwnProperty.call(schema, `const`)) {
+    if (!isPrimitive(schema.const))
+      throw new Error(`Only primitive values are supported by the "const" keyword (at ${pointer})`);
+
+    specs.push(isLiteral(schema.const));
+  }
+
+  if (typeof schema.enum !== `undefined`) {
+    if (!schema.enum.every(isPrimitive))
+      throw new Error(`Only primitive values are supported by the "enum" keyword (at ${pointer})`);
+
+    specs.push(isEnum(schema.enum));
+  }
+
+  if (typeof schema.$ref !== `undefined`)
+    specs.push(resolveReference(schema.$ref, context));
+
+  if (typeof schema.anyOf !== `undefined`)
+    specs.push(isOneOf(schema.anyOf.map((sub, index) => convertSchema(sub, `${pointer}/anyOf/${index}`, context))));
+  if (typeof schema.oneOf !== `undefined`)
+    specs.push(isOneOf(schema.oneOf.map((sub, index) => convertSchema(sub, `${pointer}/oneOf/${index}`, context)), {exclusive: true}));
+  if (typeof schema.allOf !== `undefined`)
+    specs.push(...schema.allOf.map((sub, index) => convertSchema(sub, `${pointer}/allOf/${index}`, context)));
+
+  if (specs.length === 0)
+    return isUnknown();
+
+  return withFollowups(specs[0], specs.slice(1));
+}
+
+/**
+ * Create a validator from a JSON Schema document. Only a subset of the JSON
+ * Schema keywords are supported; an exception will be thrown when meeting
+ * any keyword that can't be translated into the equivalent predicates.
+ *
+ * References are supported as long as they're local to the document (for
+ * example `#/$defs/user`) and non-recursive.
+ */
+export function fromJsonSchema(schema: JsonSchema): StrictValidator<unknown, unknown> {
+  return convertSchema(schema, `#`, {
+    root: schema,
+    cache: new Map(),
+    resolving: new Set(),
+  });
+}
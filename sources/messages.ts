@@ -0,0 +1,123 @@
+import {
+  MessageCatalog,
+} from './types';
+
+/**
+ * The builtin English catalog, used by default when no catalog is provided,
+ * and as fallback for the messages missing from the provided catalog.
+ *
+ * Messages can reference their parameters using the `{name}` syntax. Messages
+ * receiving a `count` parameter are looked up with a suffix matching the
+ * plural category of the count in the catalog locale (for instance
+ * `forbiddenProperties_one` or `forbiddenProperties_other`).
+ */
+export const defaultCatalog: MessageCatalog = {
+  locale: `en`,
+  messages: {
+    printEmptyString: `an empty string`,
+    printArray: `an array`,
+
+    listEmpty: `nothing`,
+    listSeparator: `, `,
+    listAnd: `{head} and {tail}`,
+    listAndMany: `{head}, and {tail}`,
+    listOr: `{head} or {tail}`,
+    listOrMany: `{head}, or {tail}`,
+
+    jsonUnexpectedToken: `Unexpected token {received}`,
+    jsonUnexpectedEnd: `Unexpected end of input`,
+    jsonTooDeep: `Exceeded the maximum nesting depth of {max}`,
+
+    unknownOption: `Unknown option`,
+
+    moreErrors_one: `...and {formattedCount} more error`,
+    moreErrors_other: `...and {formattedCount} more errors`,
+
+    asyncRequired: `Async validators can only be used with asAsync`,
+    unboundCoercion: `Unbound coercion result`,
+    customMessage: `{message}`,
+
+    expectedLiteral: `Expected {expected} (got {received})`,
+    expectedString: `Expected a string (got {received})`,
+    expectedEnum: `Expected one of {expected} (got {received})`,
+    expectedEnumValue: `Expected a valid enumeration value (got {received})`,
+    expectedBoolean: `Expected a boolean (got {received})`,
+    expectedNumber: `Expected a number (got {received})`,
+    expectedBigInt: `Expected a bigint (got {received})`,
+    expectedDuration: `Expected a duration (got {received})`,
+    expectedByteSize: `Expected a byte size (got {received})`,
+    unknownUnit: `Unknown unit {unit}; expected one of {expected} (got {received})`,
+    expectedJsonString: `Expected a JSON string (got {received})`,
+    expectedDate: `Expected a date (got {received})`,
+    expectedUrlInstance: `Expected a URL (got {received})`,
+    expectedArray: `Expected an array (got {received})`,
+    expectedSet: `Expected a set (got {received})`,
+    expectedMap: `Expected a map (got {received})`,
+    expectedTuple: `Expected a tuple (got {received})`,
+    expectedObject: `Expected an object (got {received})`,
+    expectedInstance: `Expected an instance of {expected} (got {received})`,
+    expectedUnionMatch: `Expected to match at least one predicate (got {received})`,
+    expectedSingleMatch: `Expected to match exactly a single predicate (matched {received})`,
+    unknownDiscriminator: `Unknown type {received}, expected one of {expected}`,
+    unsafeNumber: `Received a number that can't be safely represented by the runtime ({received})`,
+    unsafeTimestamp: `Received a timestamp that can't be safely represented by the runtime ({received})`,
+    unsafePropertyName: `Unsafe property name`,
+    extraneousProperty: `Extraneous property (got {received})`,
+    payloadCoercionRequired: `The isPayload predicate can only be used with coercion enabled`,
+
+    transformCoercionRequired: `The transform predicate can only be used with coercion enabled`,
+    transformFailed: `Failed to transform the value ({reason})`,
+    defaultCoercionRequired: `Missing value; defaults can only be applied with coercion enabled`,
+    circularReference: `Circular reference detected`,
+    missingProperties_one: `Missing required property {properties}`,
+    missingProperties_other: `Missing required properties {properties}`,
+    missingOneOfProperties: `Missing at least one property from {properties}`,
+    forbiddenProperties_one: `Forbidden property {properties}`,
+    forbiddenProperties_other: `Forbidden properties {properties}`,
+    mutuallyExclusiveProperties: `Mutually exclusive properties {properties}`,
+    propertyForbids_one: `Property "{subject}" forbids using property {properties}`,
+    propertyForbids_other: `Property "{subject}" forbids using properties {properties}`,
+    propertyRequires_one: `Property "{subject}" requires using property {properties}`,
+    propertyRequires_other: `Property "{subject}" requires using properties {properties}`,
+
+    tooShort: `Expected to have a length of at least {expected} elements (got {received})`,
+    tooLong: `Expected to have a length of at most {expected} elements (got {received})`,
+    wrongLength: `Expected to have a length of exactly {expected} elements (got {received})`,
+    duplicateItem: `Expected to contain unique elements; got a duplicate with {received}`,
+    expectedNegative: `Expected to be negative (got {received})`,
+    expectedPositive: `Expected to be positive (got {received})`,
+    expectedAtLeast: `Expected to be at least {expected} (got {received})`,
+    expectedAtMost: `Expected to be at most {expected} (got {received})`,
+    expectedInclusiveRange: `Expected to be in the [{min}; {max}] range (got {received})`,
+    expectedExclusiveRange: `Expected to be in the [{min}; {max}[ range (got {received})`,
+    expectedAfter: `Expected to be after {expected} (got {received})`,
+    expectedBefore: `Expected to be before {expected} (got {received})`,
+    expectedDateRange: `Expected to be between {min} and {max} (got {received})`,
+    expectedFinite: `Expected to be a finite number (got {received})`,
+    expectedInteger: `Expected to be an integer (got {received})`,
+    expectedSafeInteger: `Expected to be a safe integer (got {received})`,
+    expectedPattern: `Expected to match the pattern {expected} (got {received})`,
+    expectedLowerCase: `Expected to be all-lowercase (got {received})`,
+    expectedUpperCase: `Expected to be all-uppercase (got {received})`,
+    expectedUUID4: `Expected to be a valid UUID v4 (got {received})`,
+    expectedISO8601: `Expected to be a valid ISO 8601 date string (got {received})`,
+    expectedHexColor: `Expected to be a valid hexadecimal color string (got {received})`,
+    expectedBase64: `Expected to be a valid base 64 string (got {received})`,
+    expectedEmail: `Expected to be a valid email address (got {received})`,
+    expectedUrl: `Expected to be a valid URL (got {received})`,
+    expectedUrlProtocol: `Expected the URL protocol to be {expected} (got {received})`,
+    forbiddenUrlCredentials: `Expected the URL not to contain credentials`,
+    forbiddenUrlHost: `Expected the URL not to target the local machine (got {received})`,
+    expectedHostname: `Expected to be a valid hostname (got {received})`,
+    expectedSemver: `Expected to be a valid semantic version (got {received})`,
+    expectedSlug: `Expected to be a valid slug (got {received})`,
+    expectedE164Phone: `Expected to be a valid E.164 phone number (got {received})`,
+    expectedMimeType: `Expected to be a valid MIME type (got {received})`,
+    expectedIP: `Expected to be a valid IP address (got {received})`,
+    expectedIPv4: `Expected to be a valid IPv4 address (got {received})`,
+    expectedIPv6: `Expected to be a valid IPv6 address (got {received})`,
+    expectedCIDR: `Expected to be a valid CIDR block (got {received})`,
+    expectedPort: `Expected to be a port number between 1 and 65535 (got {received})`,
+    expectedJson: `Expected to be a valid JSON string (got {received})`,
+  },
+};
@@ -0,0 +1,332 @@
+import {
+  formatMessage,
+} from './internal/format';
+
+import {
+  as,
+} from './tools';
+
+import {
+  AnyStrictValidator,
+  InferType,
+  MessageCatalog,
+  PathSegment,
+  ValidationIssue,
+} from './types';
+
+export type SourcePosition = {
+  offset: number,
+  line: number,
+  column: number,
+};
+
+export type LocatedValidationIssue = ValidationIssue & SourcePosition;
+
+export type ParseOptions = {
+  /**
+   * Allow comments and trailing commas (JSONC, as used by `tsconfig.json`).
+   */
+  jsonc?: boolean,
+  coerce?: boolean,
+  catalog?: MessageCatalog,
+};
+
+class ParseError extends Error {
+  constructor(public offset: number, public id: string, public params: {[name: string]: string} = {}) {
+    super(id);
+  }
+}
+
+// Deeper documents are rejected rather than overflowing the stack of the
+// recursive parser
+const MAX_DEPTH = 1000;
+
+const lineBreakRegExp = /\r\n|\r|\n/;
+
+const numberRegExp = /-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?/y;
+const stringRegExp = /"(?:[^"\\\u0000-\u001f]|\\.)*"/y;
+const keywordRegExp = /true|false|null/y;
+
+const keywords = new Map<string, unknown>([
+  [`true`, true],
+  [`false`, false],
+  [`null`, null],
+]);
+
+function getPathKey(path: ReadonlyArray<PathSegment>) {
+  return JSON.stringify(path);
+}
+
+function parseText(text: string, {jsonc = false}: {jsonc?: boolean}) {
+  const positions = new Map<string, number>();
+  let offset = 0;
+
+  const fail = (): never => {
+    if (offset >= text.length)
+      throw new ParseError(offset, `jsonUnexpectedEnd`);
+
+    throw new ParseError(offset, `jsonUnexpectedToken`, {received: JSON.stringify(text[offset])});
+  };
+
+  const skipWhitespaces = () => {
+    while (offset < text.length) {
+      const char = text[offset];
+
+      if (char === ` ` || char === `\t` || char === `\n` || char === `\r`) {
+        offset += 1;
+      } else if (jsonc && text.startsWith(`//`, offset)) {
+        const end = text.slice(offset).search(lineBreakRegExp);
+        offset = end !== -1 ? offset + end + 1 : text.length;
+      } else if (jsonc && text.startsWith(`/*`, offset)) {
+        const end = text.indexOf(`*/`, offset + 2);
+        if (end === -1)
+          throw new ParseError(text.length, `jsonUnexpectedEnd`);
+
+        offset = end + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const matchRegExp = (regExp: RegExp) => {
+    regExp.lastIndex = offset;
+
+    const match = regExp.exec(text);
+    if (match === null)
+      return fail();
+
+    offset += match[0].length;
+    return match[0];
+  };
+
+  const expect = (char: string) => {
+    if (text[offset] !== char)
+      fail();
+
+    offset += 1;
+  };
+
+  const parseString = () => {
+    const start = offset;
+    const raw = matchRegExp(stringRegExp);
+
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      // Invalid escape sequences
+      offset = start;
+      return fail();
+    }
+  };
+
+  const parseValue = (path: Array<PathSegment>): unknown => {
+    skipWhitespaces();
+    positions.set(getPathKey(path), offset);
+
+    if (path.length > MAX_DEPTH)
+      throw new ParseError(offset, `jsonTooDeep`, {max: String(MAX_DEPTH)});
+
+    switch (text[offset]) {
+      case `{`: {
+        offset += 1;
+
+        const result: {[key: string]: unknown} = {};
+
+        skipWhitespaces();
+        if (text[offset] === `}`) {
+          offset += 1;
+          return result;
+        }
+
+        while (true) {
+          skipWhitespaces();
+          if (text[offset] !== `"`)
+            fail();
+
+          const key = parseString();
+
+          skipWhitespaces();
+          expect(`:`);
+
+          // We can't use a simple assignment, otherwise `__proto__` keys would
+          // change the prototype instead of being reported by the validators
+          Object.defineProperty(result, key, {
+            value: parseValue([...path, key]),
+            enumerable: true,
+            configurable: true,
+            writable: true,
+          });
+
+          skipWhitespaces();
+          if (text[offset] === `}`) {
+            offset += 1;
+            return result;
+          }
+
+          expect(`,`);
+
+          skipWhitespaces();
+          if (jsonc && text[offset] === `}`) {
+            offset += 1;
+            return result;
+          }
+        }
+      }
+
+      case `[`: {
+        offset += 1;
+
+        const result: Array<unknown> = [];
+
+        skipWhitespaces();
+        if (text[offset] === `]`) {
+          offset += 1;
+          return result;
+        }
+
+        while (true) {
+          result.push(parseValue([...path, result.length]));
+
+          skipWhitespaces();
+          if (text[offset] === `]`) {
+            offset += 1;
+            return result;
+          }
+
+          expect(`,`);
+
+          skipWhitespaces();
+          if (jsonc && text[offset] === `]`) {
+            offset += 1;
+            return result;
+          }
+        }
+      }
+
+      case `"`:
+        return parseString();
+
+      case `t`:
+      case `f`:
+      case `n`:
+        return keywords.get(matchRegExp(keywordRegExp));
+
+      default:
+        return JSON.parse(matchRegExp(numberRegExp));
+    }
+  };
+
+  const value = parseValue([]);
+
+  skipWhitespaces();
+  if (offset < text.length)
+    fail();
+
+  return {value, positions};
+}
+
+function makePositionResolver(text: string) {
+  const lineStarts = [0];
+
+  // Lines can end with \n, \r\n, or \r alone
+  for (let t = 0; t < text.length; ++t)
+    if (text[t] === `\n` || (text[t] === `\r` && text[t + 1] !== `\n`))
+      lineStarts.push(t + 1);
+
+  return (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+
+    // Find the last line starting before the offset
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return {offset, line: low + 1, column: offset - lineStarts[low] + 1};
+  };
+}
+
+/**
+ * Parse the given JSON text and validate the result against the given spec.
+ * Unlike `JSON.parse` followed by `as`, each reported issue (including
+ * syntax errors) comes with the line and column of the value it refers to,
+ * which can then be displayed using `formatCodeFrame`.
+ *
+ * Issues about values missing from the text (for example required
+ * properties) point to the closest value that actually exists.
+ */
+export function parseAndValidate<T extends AnyStrictValidator>(text: string, spec: T, {jsonc, coerce, catalog}: ParseOptions = {}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string>, issues: Array<LocatedValidationIssue>} {
+  const resolvePosition = makePositionResolver(text);
+
+  let parsed: ReturnType<typeof parseText>;
+  try {
+    parsed = parseText(text, {jsonc});
+  } catch (error) {
+    if (!(error instanceof ParseError))
+      throw error;
+
+    const message = formatMessage(catalog, error.id, error.params);
+
+    return {value: undefined, errors: [`.: ${message}`], issues: [{
+      path: [],
+      code: `invalid_json`,
+      message,
+      ...resolvePosition(error.offset),
+    }]};
+  }
+
+  const result = as(parsed.value, spec, {errors: true, coerce, catalog});
+  if (!(`issues` in result))
+    return result;
+
+  const issues = result.issues.map(issue => {
+    let depth = issue.path.length;
+
+    // The value may not exist in the text, in which case we use its parent
+    let offset = parsed.positions.get(getPathKey(issue.path));
+    while (typeof offset === `undefined` && depth > 0)
+      offset = parsed.positions.get(getPathKey(issue.path.slice(0, --depth)));
+
+    return {...issue, ...resolvePosition(offset ?? 0)};
+  });
+
+  return {value: result.value, errors: result.errors, issues};
+}
+
+/**
+ * Render the lines surrounding the given position, with a marker pointing
+ * at the position itself (and the message, if any). Useful to display the
+ * issues returned by `parseAndValidate`.
+ */
+export function formatCodeFrame(text: string, {line, column, message}: {line: number, column: number, message?: string}, {context = 2}: {context?: number} = {}) {
+  const lines = text.split(lineBreakRegExp);
+
+  const first = Math.max(line - context, 1);
+  const last = Math.min(line + context, lines.length);
+
+  const gutterWidth = String(last).length;
+  const output: Array<string> = [];
+
+  for (let t = first; t <= last; ++t) {
+    const content = lines[t - 1];
+    const marker = t === line ? `>` : ` `;
+
+    output.push(`${marker} ${String(t).padStart(gutterWidth)} | ${content}`.trimEnd());
+
+    if (t === line) {
+      // We keep the tabs so that the caret is aligned regardless of their width
+      const padding = content.slice(0, column - 1).replace(/[^\t]/g, ` `);
+      const suffix = typeof message !== `undefined` ? ` ${message}` : ``;
+
+      output.push(`  ${` `.repeat(gutterWidth)} | ${padding}^${suffix}`);
+    }
+  }
+
+  return output.join(`\n`);
+}
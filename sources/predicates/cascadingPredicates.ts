@@ -1,25 +1,39 @@
 import {
   getPrintable,
+  getPrintableArray,
 } from '../internal/format';
 
+import {
+  getCanonicalCIDR,
+  getCanonicalIP,
+} from '../internal/ip';
+
 import {
   base64RegExp,
   colorStringAlphaRegExp,
   colorStringRegExp,
+  e164PhoneRegExp,
+  emailRegExp,
+  hostnameRegExp,
   iso8601RegExp,
+  mimeTypeRegExp,
+  mimeTypeWithParametersRegExp,
+  semverRegExp,
+  slugRegExp,
+  urlRegExp,
   uuid4RegExp,
 } from '../internal/regexps';
 
 import {
+  getProtocolName,
+  makeBuiltinValidator,
   pushError,
 } from '../internal/tools';
 
-import {
-  makeValidator,
-} from '../tools';
-
 import {
   AnyStrictValidator,
+  IPVersion,
+  ValidationState,
 } from '../types';
 
 import {
@@ -31,10 +45,11 @@ import {
  * the specified length.
  */
 export function hasMinLength<T extends {length: number}>(length: number) {
-  return makeValidator<T>({
+  return makeBuiltinValidator<T>({
+    descriptor: {kind: `minLength`, options: {length}, children: []},
     test: (value, state) => {
       if (!(value.length >= length))
-        return pushError(state, `Expected to have a length of at least ${length} elements (got ${value.length})`);
+        return pushError(state, `tooShort`, {expected: length, received: value.length}, {code: `too_small`, expected: length, received: value.length});
 
       return true;
     },
@@ -46,10 +61,11 @@ export function hasMinLength<T extends {length: number}>(length: number) {
  * the specified length.
  */
 export function hasMaxLength<T extends {length: number}>(length: number) {
-  return makeValidator<T>({
+  return makeBuiltinValidator<T>({
+    descriptor: {kind: `maxLength`, options: {length}, children: []},
     test: (value, state) => {
       if (!(value.length <= length))
-        return pushError(state, `Expected to have a length of at most ${length} elements (got ${value.length})`);
+        return pushError(state, `tooLong`, {expected: length, received: value.length}, {code: `too_big`, expected: length, received: value.length});
 
       return true;
     },
@@ -61,10 +77,11 @@ export function hasMaxLength<T extends {length: number}>(length: number) {
  * the specified length.
  */
 export function hasExactLength<T extends {length: number}>(length: number) {
-  return makeValidator<T>({
+  return makeBuiltinValidator<T>({
+    descriptor: {kind: `exactLength`, options: {length}, children: []},
     test: (value, state) => {
       if (!(value.length === length))
-        return pushError(state, `Expected to have a length of exactly ${length} elements (got ${value.length})`);
+        return pushError(state, `wrongLength`, {expected: length, received: value.length}, {code: value.length < length ? `too_small` : `too_big`, expected: length, received: value.length});
 
       return true;
     },
@@ -82,7 +99,8 @@ export function hasUniqueItems<T>({
 }: {
   map?: (value: T) => unknown,
 } = {}) {
-  return makeValidator<T[]>({
+  return makeBuiltinValidator<T[]>({
+    descriptor: {kind: `uniqueItems`, options: {map}, children: []},
     test: (value, state) => {
       const set = new Set<unknown>();
       const dup = new Set<unknown>();
@@ -98,7 +116,7 @@ export function hasUniqueItems<T>({
           if (dup.has(key))
             continue;
 
-          pushError(state, `Expected to contain unique elements; got a duplicate with ${getPrintable(value)}`);
+          pushError(state, `duplicateItem`, {received: getPrintable(value, state?.catalog)}, {code: `not_unique`, received: sub});
           dup.add(key);
         } else {
           set.add(key);
@@ -111,13 +129,15 @@ export function hasUniqueItems<T>({
 }
 
 /**
- * Create a validator that checks that the tested number is strictly less than 0.
+ * Create a validator that checks that the tested number (or bigint) is
+ * strictly less than 0.
  */
 export function isNegative() {
-  return makeValidator<number>({
+  return makeBuiltinValidator<number | bigint>({
+    descriptor: {kind: `negative`, options: {}, children: []},
     test: (value, state) => {
       if (!(value <= 0))
-        return pushError(state, `Expected to be negative (got ${value})`);
+        return pushError(state, `expectedNegative`, {received: value}, {code: `too_big`, expected: 0, received: value});
 
       return true;
     },
@@ -125,14 +145,15 @@ export function isNegative() {
 }
 
 /**
- * Create a validator that checks that the tested number is equal or greater
- * than 0.
+ * Create a validator that checks that the tested number (or bigint) is
+ * equal or greater than 0.
  */
 export function isPositive() {
-  return makeValidator<number>({
+  return makeBuiltinValidator<number | bigint>({
+    descriptor: {kind: `positive`, options: {}, children: []},
     test: (value, state) => {
       if (!(value >= 0))
-        return pushError(state, `Expected to be positive (got ${value})`);
+        return pushError(state, `expectedPositive`, {received: value}, {code: `too_small`, expected: 0, received: value});
 
       return true;
     },
@@ -140,14 +161,15 @@ export function isPositive() {
 }
 
 /**
- * Create a validator that checks that the tested number is equal or greater
- * than the specified reference.
+ * Create a validator that checks that the tested number (or bigint) is
+ * equal or greater than the specified reference.
  */
-export function isAtLeast(n: number) {
-  return makeValidator<number>({
+export function isAtLeast(n: number | bigint) {
+  return makeBuiltinValidator<number | bigint>({
+    descriptor: {kind: `atLeast`, options: {n}, children: []},
     test: (value, state) => {
       if (!(value >= n))
-        return pushError(state, `Expected to be at least ${n} (got ${value})`);
+        return pushError(state, `expectedAtLeast`, {expected: n, received: value}, {code: `too_small`, expected: n, received: value});
 
       return true;
     },
@@ -155,14 +177,15 @@ export function isAtLeast(n: number) {
 }
 
 /**
- * Create a validator that checks that the tested number is equal or smaller
- * than the specified reference.
+ * Create a validator that checks that the tested number (or bigint) is
+ * equal or smaller than the specified reference.
  */
-export function isAtMost(n: number) {
-  return makeValidator<number>({
+export function isAtMost(n: number | bigint) {
+  return makeBuiltinValidator<number | bigint>({
+    descriptor: {kind: `atMost`, options: {n}, children: []},
     test: (value, state) => {
       if (!(value <= n))
-        return pushError(state, `Expected to be at most ${n} (got ${value})`);
+        return pushError(state, `expectedAtMost`, {expected: n, received: value}, {code: `too_big`, expected: n, received: value});
 
       return true;
     },
@@ -170,14 +193,15 @@ export function isAtMost(n: number) {
 }
 
 /**
- * Create a validator that checks that the tested number is between the
- * specified references (including the upper boundary).
+ * Create a validator that checks that the tested number (or bigint) is
+ * between the specified references (including the upper boundary).
  */
-export function isInInclusiveRange(a: number, b: number) {
-  return makeValidator<number>({
+export function isInInclusiveRange(a: number | bigint, b: number | bigint) {
+  return makeBuiltinValidator<number | bigint>({
+    descriptor: {kind: `inInclusiveRange`, options: {a, b}, children: []},
     test: (value, state) => {
       if (!(value >= a && value <= b))
-        return pushError(state, `Expected to be in the [${a}; ${b}] range (got ${value})`);
+        return pushError(state, `expectedInclusiveRange`, {min: a, max: b, received: value}, {code: value < a ? `too_small` : `too_big`, expected: [a, b], received: value});
 
       return true;
     },
@@ -185,14 +209,81 @@ export function isInInclusiveRange(a: number, b: number) {
 }
 
 /**
- * Create a validator that checks that the tested number is between the
- * specified references (excluding the upper boundary).
+ * Create a validator that checks that the tested number (or bigint) is
+ * between the specified references (excluding the upper boundary).
  */
-export function isInExclusiveRange(a: number, b: number) {
-  return makeValidator<number>({
+export function isInExclusiveRange(a: number | bigint, b: number | bigint) {
+  return makeBuiltinValidator<number | bigint>({
+    descriptor: {kind: `inExclusiveRange`, options: {a, b}, children: []},
     test: (value, state) => {
       if (!(value >= a && value < b))
-        return pushError(state, `Expected to be in the [${a}; ${b}[ range (got ${value})`);
+        return pushError(state, `expectedExclusiveRange`, {min: a, max: b, received: value}, {code: value < a ? `too_small` : `too_big`, expected: [a, b], received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested date is strictly after the
+ * specified reference.
+ */
+export function isAfter(date: Date) {
+  return makeBuiltinValidator<Date>({
+    descriptor: {kind: `after`, options: {date}, children: []},
+    test: (value, state) => {
+      if (!(value.getTime() > date.getTime()))
+        return pushError(state, `expectedAfter`, {expected: getPrintable(date, state?.catalog), received: getPrintable(value, state?.catalog)}, {code: `too_small`, expected: date, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested date is strictly before
+ * the specified reference.
+ */
+export function isBefore(date: Date) {
+  return makeBuiltinValidator<Date>({
+    descriptor: {kind: `before`, options: {date}, children: []},
+    test: (value, state) => {
+      if (!(value.getTime() < date.getTime()))
+        return pushError(state, `expectedBefore`, {expected: getPrintable(date, state?.catalog), received: getPrintable(value, state?.catalog)}, {code: `too_big`, expected: date, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested date is between the
+ * specified references (including both boundaries).
+ */
+export function isInDateRange(a: Date, b: Date) {
+  return makeBuiltinValidator<Date>({
+    descriptor: {kind: `inDateRange`, options: {a, b}, children: []},
+    test: (value, state) => {
+      const time = value.getTime();
+
+      if (!(time >= a.getTime() && time <= b.getTime()))
+        return pushError(state, `expectedDateRange`, {min: getPrintable(a, state?.catalog), max: getPrintable(b, state?.catalog), received: getPrintable(value, state?.catalog)}, {code: time < a.getTime() ? `too_small` : `too_big`, expected: [a, b], received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested number is finite (ie that
+ * it's neither `NaN` nor one of the infinities).
+ */
+export function isFinite() {
+  return makeBuiltinValidator<number>({
+    descriptor: {kind: `finite`, options: {}, children: []},
+    test: (value, state) => {
+      if (!Number.isFinite(value))
+        return pushError(state, `expectedFinite`, {received: value}, {code: `not_finite`, received: value});
 
       return true;
     },
@@ -211,13 +302,14 @@ export function isInteger({
 }: {
   unsafe?: boolean,
 } = {}) {
-  return makeValidator<number>({
+  return makeBuiltinValidator<number>({
+    descriptor: {kind: `integer`, options: {unsafe}, children: []},
     test: (value, state) => {
       if (value !== Math.round(value))
-        return pushError(state, `Expected to be an integer (got ${value})`);
+        return pushError(state, `expectedInteger`, {received: value}, {code: `not_integer`, received: value});
 
       if (!unsafe && !Number.isSafeInteger(value))
-        return pushError(state, `Expected to be a safe integer (got ${value})`);
+        return pushError(state, `expectedSafeInteger`, {received: value}, {code: `unsafe_number`, received: value});
 
       return true;
     },
@@ -229,10 +321,11 @@ export function isInteger({
  * regular expression.
  */
 export function matchesRegExp(regExp: RegExp) {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `regExp`, options: {regExp}, children: []},
     test: (value, state) => {
       if (!regExp.test(value))
-        return pushError(state, `Expected to match the pattern ${regExp.toString()} (got ${getPrintable(value)})`);
+        return pushError(state, `expectedPattern`, {expected: regExp.toString(), received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: regExp.toString(), received: value});
 
       return true;
     },
@@ -244,10 +337,11 @@ export function matchesRegExp(regExp: RegExp) {
  * characters.
  */
 export function isLowerCase() {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `lowerCase`, options: {}, children: []},
     test: (value, state) => {
       if (value !== value.toLowerCase())
-        return pushError(state, `Expected to be all-lowercase (got ${value})`);
+        return pushError(state, `expectedLowerCase`, {received: value}, {code: `invalid_format`, expected: `lowercase`, received: value});
 
       return true;
     },
@@ -259,10 +353,11 @@ export function isLowerCase() {
  * characters.
  */
 export function isUpperCase() {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `upperCase`, options: {}, children: []},
     test: (value, state) => {
       if (value !== value.toUpperCase())
-        return pushError(state, `Expected to be all-uppercase (got ${value})`);
+        return pushError(state, `expectedUpperCase`, {received: value}, {code: `invalid_format`, expected: `uppercase`, received: value});
 
       return true;
     },
@@ -273,10 +368,11 @@ export function isUpperCase() {
  * Create a validator that checks that the tested string is a valid UUID v4.
  */
 export function isUUID4() {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `uuid4`, options: {}, children: []},
     test: (value, state) => {
       if (!uuid4RegExp.test(value))
-        return pushError(state, `Expected to be a valid UUID v4 (got ${getPrintable(value)})`);
+        return pushError(state, `expectedUUID4`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `uuid4`, received: value});
 
       return true;
     },
@@ -288,10 +384,11 @@ export function isUUID4() {
  * date.
  */
 export function isISO8601() {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `iso8601`, options: {}, children: []},
     test: (value, state) => {
       if (!iso8601RegExp.test(value))
-        return pushError(state, `Expected to be a valid ISO 8601 date string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedISO8601`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `iso8601`, received: value});
 
       return true;
     },
@@ -308,14 +405,15 @@ export function isHexColor({
 }: {
   alpha?: boolean,
 }) {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `hexColor`, options: {alpha}, children: []},
     test: (value, state) => {
       const res = alpha
         ? colorStringRegExp.test(value)
         : colorStringAlphaRegExp.test(value);
 
       if (!res)
-        return pushError(state, `Expected to be a valid hexadecimal color string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedHexColor`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `hexColor`, received: value});
 
       return true;
     },
@@ -326,10 +424,270 @@ export function isHexColor({
  * Create a validator that checks that the tested string is valid base64.
  */
 export function isBase64() {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `base64`, options: {}, children: []},
     test: (value, state) => {
       if (!base64RegExp.test(value))
-        return pushError(state, `Expected to be a valid base 64 string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedBase64`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `base64`, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a valid email
+ * address (using the same definition as the HTML specification, which is
+ * intentionally stricter than RFC 5322).
+ */
+export function isEmail() {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `email`, options: {}, children: []},
+    test: (value, state) => {
+      if (!emailRegExp.test(value))
+        return pushError(state, `expectedEmail`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `email`, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a valid absolute
+ * URL whose protocol is amongst the allowed ones (`http` and `https` by
+ * default, `null` to accept any protocol). The protocols are compared
+ * case-insensitively, and can be written either with or without their
+ * trailing colon (`https` or `https:`).
+ */
+export function isHttpUrl({
+  protocols = [`http`, `https`],
+}: {
+  protocols?: ReadonlyArray<string> | null,
+} = {}) {
+  const protocolNames = protocols !== null
+    ? protocols.map(getProtocolName)
+    : null;
+
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `httpUrl`, options: {protocols}, children: []},
+    test: (value, state) => {
+      const match = value.match(urlRegExp);
+      if (match === null || (typeof match[3] !== `undefined` && Number(match[3]) > 65535))
+        return pushError(state, `expectedUrl`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `url`, received: value});
+
+      const protocol = getProtocolName(match[1]);
+      if (protocolNames !== null && !protocolNames.includes(protocol))
+        return pushError(state, `expectedUrlProtocol`, {expected: getPrintableArray(protocolNames, `or`, state?.catalog), received: getPrintable(protocol, state?.catalog)}, {code: `invalid_format`, expected: protocolNames, received: protocol});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a valid hostname
+ * (as defined by RFC 1123).
+ */
+export function isHostname() {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `hostname`, options: {}, children: []},
+    test: (value, state) => {
+      if (!hostnameRegExp.test(value))
+        return pushError(state, `expectedHostname`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `hostname`, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a valid semantic
+ * version (as defined by semver 2.0.0, without the `v` prefix).
+ */
+export function isSemver() {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `semver`, options: {}, children: []},
+    test: (value, state) => {
+      if (!semverRegExp.test(value))
+        return pushError(state, `expectedSemver`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `semver`, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a valid slug
+ * (lowercase alphanumeric words separated by single dashes).
+ */
+export function isSlug() {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `slug`, options: {}, children: []},
+    test: (value, state) => {
+      if (!slugRegExp.test(value))
+        return pushError(state, `expectedSlug`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `slug`, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a phone number
+ * in the E.164 format (for example `+14155552671`).
+ */
+export function isE164Phone() {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `e164Phone`, options: {}, children: []},
+    test: (value, state) => {
+      if (!e164PhoneRegExp.test(value))
+        return pushError(state, `expectedE164Phone`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `e164Phone`, received: value});
+
+      return true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is a valid MIME
+ * type (for example `text/html`). The parameters (`; charset=utf-8`) are
+ * only allowed if the `parameters` option is set.
+ */
+export function isMimeType({
+  parameters = false,
+}: {
+  parameters?: boolean,
+} = {}) {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `mimeType`, options: {parameters}, children: []},
+    test: (value, state) => {
+      const res = parameters
+        ? mimeTypeWithParametersRegExp.test(value)
+        : mimeTypeRegExp.test(value);
+
+      if (!res)
+        return pushError(state, `expectedMimeType`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `mimeType`, received: value});
+
+      return true;
+    },
+  });
+}
+
+function pushNormalization(value: string, normalized: string, state?: ValidationState) {
+  if (normalized === value || typeof state?.coercions === `undefined`)
+    return true;
+
+  if (typeof state.coercion === `undefined`)
+    return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+  state.coercions.push([state.p ?? `.`, state.coercion.bind(null, normalized)]);
+  return true;
+}
+
+const IP_MESSAGES = {
+  4: {id: `expectedIPv4`, expected: `ipv4`},
+  6: {id: `expectedIPv6`, expected: `ipv6`},
+  any: {id: `expectedIP`, expected: `ip`},
+};
+
+function makeIPValidator(kind: string, version: IPVersion | undefined, normalize: boolean) {
+  const {id, expected} = IP_MESSAGES[version ?? `any`];
+
+  return makeBuiltinValidator<string>({
+    descriptor: {kind, options: {version, normalize}, children: []},
+    test: (value, state) => {
+      const canonical = getCanonicalIP(value, version);
+      if (canonical === null)
+        return pushError(state, id, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected, received: value});
+
+      return normalize
+        ? pushNormalization(value, canonical, state)
+        : true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested string is an IPv4 address
+ * in dotted-decimal notation. Leading zeros are rejected, since some parsers
+ * interpret them as octal.
+ */
+export function isIPv4() {
+  return makeIPValidator(`ipv4`, 4, false);
+}
+
+/**
+ * Create a validator that checks that the tested string is an IPv6 address,
+ * including the compressed forms (`::1`), the IPv4-mapped addresses
+ * (`::ffff:192.0.2.1`), and the zone identifiers (`fe80::1%eth0`).
+ *
+ * If `normalize` is set and coercion is enabled, the address will be
+ * replaced by its canonical form (lowercase and compressed, as described by
+ * RFC 5952).
+ */
+export function isIPv6({
+  normalize = false,
+}: {
+  normalize?: boolean,
+} = {}) {
+  return makeIPValidator(`ipv6`, 6, normalize);
+}
+
+/**
+ * Create a validator that checks that the tested string is an IP address of
+ * the specified version (either IPv4 or IPv6 if unspecified). See `isIPv6`
+ * for the `normalize` option.
+ */
+export function isIP({
+  version,
+  normalize = false,
+}: {
+  version?: IPVersion,
+  normalize?: boolean,
+} = {}) {
+  return makeIPValidator(`ip`, version, normalize);
+}
+
+/**
+ * Create a validator that checks that the tested string is a CIDR block (an
+ * IP address followed by a prefix length, such as `10.0.0.0/8`) of the
+ * specified version (either IPv4 or IPv6 if unspecified). See `isIPv6` for
+ * the `normalize` option.
+ */
+export function isCIDR({
+  version,
+  normalize = false,
+}: {
+  version?: IPVersion,
+  normalize?: boolean,
+} = {}) {
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `cidr`, options: {version, normalize}, children: []},
+    test: (value, state) => {
+      const canonical = getCanonicalCIDR(value, version);
+      if (canonical === null)
+        return pushError(state, `expectedCIDR`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `cidr`, received: value});
+
+      return normalize
+        ? pushNormalization(value, canonical, state)
+        : true;
+    },
+  });
+}
+
+/**
+ * Create a validator that checks that the tested number is a valid port
+ * number (an integer between 1 and 65535).
+ */
+export function isPort() {
+  return makeBuiltinValidator<number>({
+    descriptor: {kind: `port`, options: {}, children: []},
+    test: (value, state) => {
+      if (value !== Math.round(value))
+        return pushError(state, `expectedPort`, {received: value}, {code: `not_integer`, expected: [1, 65535], received: value});
+
+      if (value < 1 || value > 65535)
+        return pushError(state, `expectedPort`, {received: value}, {code: value < 1 ? `too_small` : `too_big`, expected: [1, 65535], received: value});
 
       return true;
     },
@@ -344,13 +702,14 @@ export function isBase64() {
  * the original string).
  */
 export function isJSON(spec: AnyStrictValidator = isUnknown()) {
-  return makeValidator<string>({
+  return makeBuiltinValidator<string>({
+    descriptor: {kind: `json`, options: {spec}, children: [spec]},
     test: (value, state) => {
       let data;
       try {
         data = JSON.parse(value);
       } catch {
-        return pushError(state, `Expected to be a valid JSON string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedJson`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_json`, received: value});
       }
 
       return spec(data, state);
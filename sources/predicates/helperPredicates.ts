@@ -1,17 +1,14 @@
 import {
   getPrintableArray,
-  plural,
 } from '../internal/format';
 
 import {
+  makeBuiltinValidator,
   makeCoercionFn,
   pushError,
+  resolvePending,
 } from '../internal/tools';
 
-import {
-  makeValidator,
-} from '../tools';
-
 import {
   AnyStrictValidator,
   BoundCoercionFn,
@@ -40,7 +37,8 @@ export function cascade<T extends AnyStrictValidator>(spec: T, ...followups: any
     ? followups[0]
     : followups;
 
-  return makeValidator<unknown, InferType<T>>({
+  return makeBuiltinValidator<unknown, InferType<T>>({
+    descriptor: {kind: `cascade`, options: {spec, followups: resolvedFollowups}, children: [spec, ...resolvedFollowups]},
     test: (value, state): value is InferType<T> => {
       const context = {value: value as any};
 
@@ -50,34 +48,115 @@ export function cascade<T extends AnyStrictValidator>(spec: T, ...followups: any
       const subCoercions = typeof state?.coercions !== `undefined`
         ? [] as Coercion[] : undefined;
 
-      if (!spec(value, {...state, coercion: subCoercion, coercions: subCoercions}))
+      const subPending = typeof state?.pending !== `undefined`
+        ? [] as Array<Promise<boolean>> : undefined;
+
+      if (!spec(value, {...state, coercion: subCoercion, coercions: subCoercions, pending: subPending}))
         return false;
 
-      const reverts: BoundCoercionFn[] = [];
-      if (typeof subCoercions !== `undefined`)
-        for (const [, coercion] of subCoercions)
-          reverts.push(coercion());
+      const applyFollowups = () => {
+        const reverts: BoundCoercionFn[] = [];
+        if (typeof subCoercions !== `undefined`)
+          for (const [, coercion] of subCoercions)
+            reverts.push(coercion());
 
-      try {
-        if (typeof state?.coercions !== `undefined`) {
-          if (context.value !== value) {
-            if (typeof state?.coercion === `undefined`)
-              return pushError(state, `Unbound coercion result`);
+        try {
+          if (typeof state?.coercions !== `undefined`) {
+            if (context.value !== value) {
+              if (typeof state?.coercion === `undefined`)
+                return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+              state.coercions.push([state.p ?? `.`, state.coercion.bind(null, context.value)]);
+            }
 
-            state.coercions.push([state.p ?? `.`, state.coercion.bind(null, context.value)]);
+            state?.coercions?.push(...subCoercions!);
           }
 
-          state?.coercions?.push(...subCoercions!);
+          return resolvedFollowups.every(spec => {
+            return spec(context.value as InferType<T>, state);
+          });
+        } finally {
+          for (const revert of reverts) {
+            revert();
+          }
         }
+      };
 
-        return resolvedFollowups.every(spec => {
-          return spec(context.value as InferType<T>, state);
-        });
-      } finally {
-        for (const revert of reverts) {
-          revert();
+      // The followups can only run once the spec has been fully checked,
+      // which may not be the case yet if it contains async validators
+      if (typeof subPending !== `undefined` && subPending.length > 0) {
+        state!.pending!.push(resolvePending(subPending).then(valid => valid && applyFollowups()));
+        return true;
+      }
+
+      return applyFollowups();
+    },
+  });
+}
+
+/**
+ * Important: This validator only makes sense when used in conjunction with
+ * coercion! It will always error when used without.
+ *
+ * Create a validator that runs the provided spec, then converts the refined
+ * value into a new one by calling the given function. Refines the type to
+ * whatever the function returns, and casts the value accordingly.
+ *
+ * For example, the following would turn a version string into an object:
+ *   t.transform(t.cascade(t.isString(), t.matchesRegExp(/^\d+\.\d+\.\d+$/)), value => {
+ *     const [major, minor, patch] = value.split(`.`).map(Number);
+ *     return {major, minor, patch};
+ *   })
+ */
+export function transform<T extends AnyStrictValidator, R>(spec: T, fn: (value: InferType<T>) => R) {
+  return makeBuiltinValidator<unknown, R>({
+    descriptor: {kind: `transform`, options: {spec, fn}, children: [spec]},
+    test: (value, state): value is R => {
+      if (typeof state?.coercions === `undefined`)
+        return pushError(state, `transformCoercionRequired`, {}, {code: `coercion_required`});
+
+      if (typeof state.coercion === `undefined`)
+        return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+      const context = {value: value as any};
+
+      const subCoercions: Coercion[] = [];
+      const subPending = typeof state.pending !== `undefined`
+        ? [] as Array<Promise<boolean>> : undefined;
+
+      if (!spec(value, {...state, coercion: makeCoercionFn(context, `value`), coercions: subCoercions, pending: subPending}))
+        return false;
+
+      const applyTransform = () => {
+        const reverts: BoundCoercionFn[] = [];
+        for (const [, coercion] of subCoercions)
+          reverts.push(coercion());
+
+        let output: R;
+        try {
+          output = fn(context.value);
+        } catch (error) {
+          return pushError(state, `transformFailed`, {reason: error instanceof Error ? error.message : String(error)}, {code: `transform_failed`, received: value});
+        } finally {
+          for (const revert of reverts) {
+            revert();
+          }
         }
+
+        state.coercions!.push(...subCoercions);
+        state.coercions!.push([state.p ?? `.`, state.coercion!.bind(null, output)]);
+
+        return true;
+      };
+
+      // Same as cascade, we need the spec to be fully checked before we can
+      // compute the output
+      if (typeof subPending !== `undefined` && subPending.length > 0) {
+        state.pending!.push(resolvePending(subPending).then(valid => valid && applyTransform()));
+        return true;
       }
+
+      return applyTransform();
     },
   });
 }
@@ -99,7 +178,8 @@ export function applyCascade<T extends AnyStrictValidator>(spec: T, ...followups
  * Wraps the given spec to also allow `undefined`.
  */
 export function isOptional<T extends AnyStrictValidator>(spec: T) {
-  return makeValidator<unknown, InferType<T> | undefined>({
+  return makeBuiltinValidator<unknown, InferType<T> | undefined>({
+    descriptor: {kind: `optional`, options: {spec}, children: [spec]},
     test: (value, state): value is InferType<T> | undefined => {
       if (typeof value === `undefined`)
         return true;
@@ -113,7 +193,8 @@ export function isOptional<T extends AnyStrictValidator>(spec: T) {
  * Wraps the given spec to also allow `null`.
  */
 export function isNullable<T extends AnyStrictValidator>(spec: T) {
-  return makeValidator<unknown, InferType<T> | null>({
+  return makeBuiltinValidator<unknown, InferType<T> | null>({
+    descriptor: {kind: `nullable`, options: {spec}, children: [spec]},
     test: (value, state): value is InferType<T> | null => {
       if (value === null)
         return true;
@@ -123,6 +204,111 @@ export function isNullable<T extends AnyStrictValidator>(spec: T) {
   });
 }
 
+/**
+ * Create a validator that defers the creation of its spec until it's first
+ * needed, making it possible to describe recursive types. Since TypeScript
+ * can't infer the type of self-referential declarations, the validator must
+ * be explicitly annotated:
+ *
+ *   type Node = {name: string, children: Array<Node>};
+ *   const isNode: t.StrictValidator<unknown, Node> = t.isLazy(() => t.isObject({
+ *     name: t.isString(),
+ *     children: t.isArray(isNode),
+ *   }));
+ *
+ * Objects referencing themselves (directly or through their children) are
+ * rejected rather than recursed into indefinitely.
+ */
+export function isLazy<T extends AnyStrictValidator>(getter: () => T) {
+  let spec: T | undefined;
+  const resolve = () => spec ??= getter();
+
+  // Only contains the objects currently being validated by this validator,
+  // so a same object referenced from two different places is still allowed
+  const ancestors = new Set<unknown>();
+
+  return makeBuiltinValidator<unknown, InferType<T>>({
+    descriptor: {kind: `lazy`, options: {getter}, get children() {
+      return [resolve()];
+    }},
+    test: (value, state): value is InferType<T> => {
+      const isTraceable = typeof value === `object` && value !== null;
+      if (isTraceable && ancestors.has(value))
+        return pushError(state, `circularReference`, {}, {code: `circular_reference`});
+
+      if (isTraceable)
+        ancestors.add(value);
+
+      try {
+        return resolve()(value, state);
+      } finally {
+        if (isTraceable) {
+          ancestors.delete(value);
+        }
+      }
+    },
+  });
+}
+
+function copyDefault<T>(value: T): T {
+  if (Array.isArray(value))
+    return value.map(copyDefault) as any;
+
+  if (value instanceof Map)
+    return new Map([...value].map(([key, subValue]) => [key, copyDefault(subValue)])) as any;
+
+  if (value instanceof Set)
+    return new Set([...value].map(copyDefault)) as any;
+
+  if (typeof value === `object` && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, subValue] of Object.entries(value))
+      copy[key] = copyDefault(subValue);
+
+    return copy as T;
+  }
+
+  return value;
+}
+
+/**
+ * Wraps the given spec so that, when coercion is enabled, `undefined` values
+ * (including missing properties) are replaced by the provided default value.
+ * If the default is a function, it'll be called each time a new default
+ * value is needed, which is useful to avoid sharing mutable defaults (such as
+ * arrays) between multiple results. Other defaults are copied (arrays, sets,
+ * maps, and plain objects) before being validated, so coercions never modify
+ * the value passed to `withDefault`.
+ *
+ * Refines the type to exclude `undefined`, so properties wrapped with
+ * `withDefault` won't be optional in the `isObject` inferred types. For the
+ * same reason, `undefined` values will be rejected when coercion is disabled.
+ */
+export function withDefault<T extends AnyStrictValidator>(spec: T, value: Exclude<InferType<T>, undefined> | (() => Exclude<InferType<T>, undefined>)) {
+  return makeBuiltinValidator<unknown, Exclude<InferType<T>, undefined>>({
+    descriptor: {kind: `default`, options: {spec, value}, children: [spec]},
+    test: (subValue, state): subValue is Exclude<InferType<T>, undefined> => {
+      if (typeof subValue !== `undefined`)
+        return spec(subValue, state);
+
+      if (typeof state?.coercions === `undefined`)
+        return pushError(state, `defaultCoercionRequired`, {}, {code: `coercion_required`});
+
+      if (typeof state.coercion === `undefined`)
+        return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+      const fallback = typeof value === `function`
+        ? (value as () => Exclude<InferType<T>, undefined>)()
+        : copyDefault(value);
+
+      state.coercions.push([state.p ?? `.`, state.coercion.bind(null, fallback)]);
+
+      // The default value may itself need to be coerced
+      return spec(fallback, state);
+    },
+  });
+}
+
 export type MissingType = 'missing' | 'undefined' | 'nil' | 'falsy';
 
 const checks: {[index in MissingType]: (keys: Set<string>, key: string, value: Record<string, unknown>) => boolean } = {
@@ -140,7 +326,8 @@ export function hasRequiredKeys(requiredKeys: string[], options?: { missingIf?:
   const requiredSet = new Set(requiredKeys);
   const check = checks[options?.missingIf ?? 'missing'];
 
-  return makeValidator<Record<string, unknown>>({
+  return makeBuiltinValidator<Record<string, unknown>>({
+    descriptor: {kind: `requiredKeys`, options: {keys: requiredKeys, missingIf: options?.missingIf ?? `missing`}, children: []},
     test: (value, state) => {
       const keys = new Set(Object.keys(value));
 
@@ -150,7 +337,7 @@ export function hasRequiredKeys(requiredKeys: string[], options?: { missingIf?:
           problems.push(key);
 
       if (problems.length > 0)
-        return pushError(state, `Missing required ${plural(problems.length, `property`, `properties`)} ${getPrintableArray(problems, `and`)}`);
+        return pushError(state, `missingProperties`, {count: problems.length, properties: getPrintableArray(problems, `and`, state?.catalog)}, {code: `missing_properties`, expected: problems});
 
       return true;
     },
@@ -165,13 +352,14 @@ export function hasAtLeastOneKey(requiredKeys: string[], options?: { missingIf?:
   const requiredSet = new Set(requiredKeys);
   const check = checks[options?.missingIf ?? 'missing'];
 
-  return makeValidator<Record<string, unknown>>({
+  return makeBuiltinValidator<Record<string, unknown>>({
+    descriptor: {kind: `atLeastOneKey`, options: {keys: requiredKeys, missingIf: options?.missingIf ?? `missing`}, children: []},
     test: (value, state) => {
       const keys = Object.keys(value);
 
       const valid = keys.some(key => check(requiredSet, key, value));
       if (!valid)
-        return pushError(state, `Missing at least one property from ${getPrintableArray(Array.from(requiredSet), `or`)}`);
+        return pushError(state, `missingOneOfProperties`, {properties: getPrintableArray(Array.from(requiredSet), `or`, state?.catalog)}, {code: `missing_properties`, expected: Array.from(requiredSet)});
 
       return true;
     },
@@ -186,7 +374,8 @@ export function hasForbiddenKeys(forbiddenKeys: string[], options?: { missingIf?
   const forbiddenSet = new Set(forbiddenKeys);
   const check = checks[options?.missingIf ?? 'missing'];
 
-  return makeValidator<{[key: string]: unknown}>({
+  return makeBuiltinValidator<{[key: string]: unknown}>({
+    descriptor: {kind: `forbiddenKeys`, options: {keys: forbiddenKeys, missingIf: options?.missingIf ?? `missing`}, children: []},
     test: (value, state) => {
       const keys = new Set(Object.keys(value));
 
@@ -196,7 +385,7 @@ export function hasForbiddenKeys(forbiddenKeys: string[], options?: { missingIf?
           problems.push(key);
 
       if (problems.length > 0)
-        return pushError(state, `Forbidden ${plural(problems.length, `property`, `properties`)} ${getPrintableArray(problems, `and`)}`);
+        return pushError(state, `forbiddenProperties`, {count: problems.length, properties: getPrintableArray(problems, `and`, state?.catalog)}, {code: `forbidden_properties`, received: problems});
 
       return true;
     },
@@ -211,7 +400,8 @@ export function hasMutuallyExclusiveKeys(exclusiveKeys: string[], options?: { mi
   const exclusiveSet = new Set(exclusiveKeys);
   const check = checks[options?.missingIf ?? 'missing'];
 
-  return makeValidator<{[key: string]: unknown}>({
+  return makeBuiltinValidator<{[key: string]: unknown}>({
+    descriptor: {kind: `mutuallyExclusiveKeys`, options: {keys: exclusiveKeys, missingIf: options?.missingIf ?? `missing`}, children: []},
     test: (value, state) => {
       const keys = new Set(Object.keys(value));
 
@@ -221,7 +411,7 @@ export function hasMutuallyExclusiveKeys(exclusiveKeys: string[], options?: { mi
           used.push(key);
 
       if (used.length > 1)
-        return pushError(state, `Mutually exclusive properties ${getPrintableArray(used, `and`)}`);
+        return pushError(state, `mutuallyExclusiveProperties`, {properties: getPrintableArray(used, `and`, state?.catalog)}, {code: `mutually_exclusive_properties`, received: used});
 
       return true;
     },
@@ -236,13 +426,17 @@ export enum KeyRelationship {
 const keyRelationships = {
   [KeyRelationship.Forbids]: {
     expect: false,
-    message: `forbids using`,
+    message: `propertyForbids`,
+    code: `forbidden_properties`,
+    details: `received`,
   },
   [KeyRelationship.Requires]: {
     expect: true,
-    message: `requires using`,
+    message: `propertyRequires`,
+    code: `missing_properties`,
+    details: `expected`,
   },
-};
+} as const;
 
 /**
  * Create a validator that checks that, when the specified subject property is
@@ -256,10 +450,11 @@ export function hasKeyRelationship(subject: string, relationship: KeyRelationshi
   const spec = keyRelationships[relationship];
 
   const conjunction = relationship === KeyRelationship.Forbids
-    ? `or`
-    : `and`;
+    ? `or` as const
+    : `and` as const;
 
-  return makeValidator<{[key: string]: unknown}>({
+  return makeBuiltinValidator<{[key: string]: unknown}>({
+    descriptor: {kind: `keyRelationship`, options: {subject, relationship, others, ignore: options?.ignore ?? [], missingIf: options?.missingIf ?? `missing`}, children: []},
     test: (value, state) => {
       const keys = new Set(Object.keys(value));
       if (!check(keys, subject, value) || skipped.has(value[subject]))
@@ -271,7 +466,7 @@ export function hasKeyRelationship(subject: string, relationship: KeyRelationshi
           problems.push(key);
 
       if (problems.length >= 1)
-        return pushError(state, `Property "${subject}" ${spec.message} ${plural(problems.length, `property`, `properties`)} ${getPrintableArray(problems, conjunction)}`);
+        return pushError(state, spec.message, {subject, count: problems.length, properties: getPrintableArray(problems, conjunction, state?.catalog)}, {code: spec.code, [spec.details]: problems});
 
       return true;
     },
@@ -1,41 +1,63 @@
 import {
   computeKey,
+  computePath,
+  formatMessage,
   getPrintableArray,
   getPrintable,
 } from '../internal/format';
 
+import {
+  isLocalIP,
+} from '../internal/ip';
+
 import {
   iso8601RegExp,
 } from '../internal/regexps';
 
 import {
+  getDescriptor,
+  getProtocolName,
+  makeBuiltinValidator,
   makeCoercionFn,
   makeLazyCoercionFn,
   makeSetter,
   pushError,
+  reserveError,
+  resolvePending,
+  shouldStop,
 } from '../internal/tools';
 
 import {
-  makeValidator,
   softAssert,
 } from '../tools';
 
 import {
   AnyStrictValidator,
   Coercion,
+  DateFormat,
+  DurationUnit,
   InferType,
   StrictValidator,
+  UnknownKeysMode,
+  ValidationIssue,
+  ValidationState,
+  ValidatorDescriptor,
 } from '../types';
 
 import {
   hasExactLength,
 } from './cascadingPredicates';
 
+import {
+  isOptional,
+} from './helperPredicates';
+
 /**
  * Create a validator that always returns true and never refines the type.
  */
 export function isUnknown() {
-  return makeValidator<unknown, unknown>({
+  return makeBuiltinValidator<unknown, unknown>({
+    descriptor: {kind: `unknown`, options: {}, children: []},
     test: (value, state): value is unknown => {
       return true;
     },
@@ -58,10 +80,11 @@ export function isLiteral<T extends number>(expected: T): StrictValidator<unknow
 export function isLiteral<T extends string>(expected: T): StrictValidator<unknown, T>;
 export function isLiteral<T>(expected: T): StrictValidator<unknown, T>;
 export function isLiteral<T>(expected: T) {
-  return makeValidator<unknown, T>({
+  return makeBuiltinValidator<unknown, T>({
+    descriptor: {kind: `literal`, options: {expected}, children: []},
     test: (value, state): value is T => {
       if (value !== expected)
-        return pushError(state, `Expected ${getPrintable(expected)} (got ${getPrintable(value)})`);
+        return pushError(state, `expectedLiteral`, {expected: getPrintable(expected, state?.catalog), received: getPrintable(value, state?.catalog)}, {code: `invalid_literal`, expected, received: value});
 
       return true;
     },
@@ -73,10 +96,11 @@ export function isLiteral<T>(expected: T) {
  * Refines the type to `string`.
  */
 export function isString() {
-  return makeValidator<unknown, string>({
+  return makeBuiltinValidator<unknown, string>({
+    descriptor: {kind: `string`, options: {}, children: []},
     test: (value, state): value is string => {
       if (typeof value !== `string`)
-        return pushError(state, `Expected a string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedString`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `string`, received: value});
 
       return true;
     },
@@ -104,13 +128,14 @@ export function isEnum<T>(enumSpec: any): StrictValidator<unknown, T> {
   if (values.size === 1)
     return isLiteral<T>([...values][0]);
 
-  return makeValidator<unknown, T>({
+  return makeBuiltinValidator<unknown, T>({
+    descriptor: {kind: `enum`, options: {values: valuesArray}, children: []},
     test: (value, state): value is T => {
       if (!values.has(value as T)) {
         if (isAlphaNum) {
-          return pushError(state, `Expected one of ${getPrintableArray(valuesArray, `or`)} (got ${getPrintable(value)})`);
+          return pushError(state, `expectedEnum`, {expected: getPrintableArray(valuesArray, `or`, state?.catalog), received: getPrintable(value, state?.catalog)}, {code: `invalid_enum_value`, expected: valuesArray, received: value});
         } else {
-          return pushError(state, `Expected a valid enumeration value (got ${getPrintable(value)})`);
+          return pushError(state, `expectedEnumValue`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_enum_value`, expected: valuesArray, received: value});
         }
       }
 
@@ -140,12 +165,13 @@ const BOOLEAN_COERCIONS = new Map<unknown, boolean>([
  * - 'false' / 'False' / '0' / 0 will turn to `false`
  */
 export function isBoolean() {
-  return makeValidator<unknown, boolean>({
+  return makeBuiltinValidator<unknown, boolean>({
+    descriptor: {kind: `boolean`, options: {}, children: []},
     test: (value, state): value is boolean => {
       if (typeof value !== `boolean`) {
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           const coercion = BOOLEAN_COERCIONS.get(value);
           if (typeof coercion !== `undefined`) {
@@ -154,7 +180,7 @@ export function isBoolean() {
           }
         }
 
-        return pushError(state, `Expected a boolean (got ${getPrintable(value)})`);
+        return pushError(state, `expectedBoolean`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `boolean`, received: value});
       }
 
       return true;
@@ -162,35 +188,133 @@ export function isBoolean() {
   });
 }
 
+type NumberCoercionOptions = {
+  radixPrefixes: boolean,
+  separators: boolean,
+  whitespace: boolean,
+  exponents: boolean,
+  nonFinite: boolean,
+};
+
+const radixes: {[prefix: string]: {radix: number, regExp: RegExp}} = {
+  x: {radix: 16, regExp: /^[0-9a-f]+$/i},
+  o: {radix: 8, regExp: /^[0-7]+$/},
+  b: {radix: 2, regExp: /^[01]+$/},
+};
+
+const nonFiniteValues = new Map([
+  [`NaN`, NaN],
+  [`Infinity`, Infinity],
+  [`+Infinity`, Infinity],
+  [`-Infinity`, -Infinity],
+]);
+
+const radixRegExp = /^([-+]?)0([xob])(.*)$/i;
+const exponentRegExp = /^-?(?:0|[1-9][0-9]*)(?:\.[0-9]+)?[eE][-+]?[0-9]+$/;
+const hexadecimalPrefixRegExp = /^[-+]?0x/i;
+
+// Separators must sit between two digits; letters only count as digits in
+// hexadecimal literals, otherwise `1e_3` would be accepted
+const misplacedDecimalSeparatorRegExp = /(?:^|[^0-9])_|_(?:[^0-9]|$)/;
+const misplacedHexadecimalSeparatorRegExp = /(?:^|[^0-9a-f])_|_(?:[^0-9a-f]|$)/i;
+
+// Returns null when the string isn't a number at all, and undefined when it
+// is, but can't be safely represented by the runtime
+function parseNumber(value: string, {radixPrefixes, separators, whitespace, exponents, nonFinite}: NumberCoercionOptions): number | null | undefined {
+  if (whitespace)
+    value = value.trim();
+
+  if (nonFinite && nonFiniteValues.has(value))
+    return nonFiniteValues.get(value)!;
+
+  if (separators && value.includes(`_`)) {
+    const misplacedSeparatorRegExp = radixPrefixes && hexadecimalPrefixRegExp.test(value)
+      ? misplacedHexadecimalSeparatorRegExp
+      : misplacedDecimalSeparatorRegExp;
+
+    if (misplacedSeparatorRegExp.test(value))
+      return null;
+
+    value = value.replace(/_/g, ``);
+  }
+
+  const radixMatch = radixPrefixes ? value.match(radixRegExp) : null;
+  if (radixMatch !== null) {
+    const [, sign, prefix, digits] = radixMatch;
+
+    const {radix, regExp} = radixes[prefix.toLowerCase()];
+    if (!regExp.test(digits))
+      return null;
+
+    const parsed = parseInt(digits, radix) * (sign === `-` ? -1 : 1);
+    return Number.isSafeInteger(parsed) ? parsed : undefined;
+  }
+
+  let parsed;
+  try {
+    parsed = JSON.parse(value);
+  } catch {}
+
+  if (typeof parsed !== `number`)
+    return null;
+
+  // We check against JSON.stringify that the output is the same to ensure that the number can be safely represented in JS
+  if (JSON.stringify(parsed) === value)
+    return parsed;
+
+  // The exponent forms are accepted unless they describe integers too large
+  // to be precise, or overflow into the infinities (`1e400`)
+  if (exponents && exponentRegExp.test(value) && (!Number.isInteger(parsed) || Number.isSafeInteger(parsed)) && (nonFinite || Number.isFinite(parsed)))
+    return parsed;
+
+  return undefined;
+}
+
 /**
  * Create a validator that only returns true when the tested value is a
  * number (including floating numbers; use `cascade` and `isInteger` to
  * restrict the range further). Refines the type to `number`.
+ *
+ * Note that `NaN` and the infinities are numbers too; use `cascade` and
+ * `isFinite` to reject them.
  * 
- * Supports coercion.
+ * Supports coercion. By default only the strings whose canonical
+ * representation matches the number are accepted, but the following options
+ * allow more formats:
+ *
+ * - `radixPrefixes` accepts the hexadecimal (`0x1F`), octal (`0o17`), and
+ *   binary (`0b11`) literals.
+ * - `separators` accepts the numeric separators (`1_000`).
+ * - `whitespace` ignores the surrounding whitespace (` 42 `).
+ * - `exponents` accepts the exponent forms (`1e3`), even when they aren't
+ *   the canonical representation of the number.
+ * - `nonFinite` accepts `NaN`, `Infinity`, and `-Infinity`.
  */
-export function isNumber() {
-  return makeValidator<unknown, number>({
+export function isNumber({
+  radixPrefixes = false,
+  separators = false,
+  whitespace = false,
+  exponents = false,
+  nonFinite = false,
+}: Partial<NumberCoercionOptions> = {}) {
+  const coercionOptions = {radixPrefixes, separators, whitespace, exponents, nonFinite};
+
+  return makeBuiltinValidator<unknown, number>({
+    descriptor: {kind: `number`, options: coercionOptions, children: []},
     test: (value, state): value is number => {
       if (typeof value !== `number`) {
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           let coercion: number | undefined;
           if (typeof value === `string`) {
-            let val;
-            try {
-              val = JSON.parse(value);
-            } catch {}
-
-            // We check against JSON.stringify that the output is the same to ensure that the number can be safely represented in JS
-            if (typeof val === `number`) {
-              if (JSON.stringify(val) === value) {
-                coercion = val;
-              } else {
-                return pushError(state, `Received a number that can't be safely represented by the runtime (${value})`);
-              }
+            const parsed = parseNumber(value, coercionOptions);
+            if (typeof parsed === `undefined`)
+              return pushError(state, `unsafeNumber`, {received: value}, {code: `unsafe_number`, received: value});
+
+            if (parsed !== null) {
+              coercion = parsed;
             }
           }
 
@@ -200,7 +324,7 @@ export function isNumber() {
           }
         }
 
-        return pushError(state, `Expected a number (got ${getPrintable(value)})`);
+        return pushError(state, `expectedNumber`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `number`, received: value});
       }
 
       return true;
@@ -208,6 +332,187 @@ export function isNumber() {
   });
 }
 
+/**
+ * Create a validator that only returns true when the tested value is a
+ * bigint. Refines the type to `bigint`.
+ *
+ * Supports coercion from integer strings (which can exceed the range of
+ * the safe integers) and from safe integers.
+ */
+export function isBigInt() {
+  return makeBuiltinValidator<unknown, bigint>({
+    descriptor: {kind: `bigint`, options: {}, children: []},
+    test: (value, state): value is bigint => {
+      if (typeof value !== `bigint`) {
+        if (typeof state?.coercions !== `undefined`) {
+          if (typeof state?.coercion === `undefined`)
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+          let coercion: bigint | undefined;
+          if (typeof value === `string` && /^-?[0-9]+$/.test(value)) {
+            coercion = BigInt(value);
+          } else if (typeof value === `number` && Number.isInteger(value)) {
+            // Unsafe integers have already lost their precision
+            if (!Number.isSafeInteger(value))
+              return pushError(state, `unsafeNumber`, {received: value}, {code: `unsafe_number`, received: value});
+
+            coercion = BigInt(value);
+          }
+
+          if (typeof coercion !== `undefined`) {
+            state.coercions.push([state.p ?? `.`, state.coercion.bind(null, coercion)]);
+            return true;
+          }
+        }
+
+        return pushError(state, `expectedBigInt`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `bigint`, received: value});
+      }
+
+      return true;
+    },
+  });
+}
+
+const durationUnits: {[unit in DurationUnit]: number} = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const byteSizeUnits: {[unit: string]: number} = {
+  B: 1,
+  kB: 1000,
+  KB: 1000,
+  MB: 1000 ** 2,
+  GB: 1000 ** 3,
+  TB: 1000 ** 4,
+  PB: 1000 ** 5,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+  TiB: 1024 ** 4,
+  PiB: 1024 ** 5,
+};
+
+const quantityRegExp = /([0-9]+)(?:\.([0-9]+))?\s*([a-zA-Z]*)/y;
+
+type QuantityParseResult =
+  | {kind: `valid`, value: number}
+  | {kind: `invalid`}
+  | {kind: `unknownUnit`, unit: string};
+
+// Parse strings made of one or more quantities (for example `1h30m`), the
+// quantities without unit being expressed in the default unit. Whitespace is
+// only allowed around the string and between a quantity and its unit, and
+// only single quantities can omit their unit (otherwise `1 30` would be read
+// as 31)
+function parseQuantities(value: string, units: {[unit: string]: number}, defaultUnit: string, {multiple}: {multiple: boolean}): QuantityParseResult {
+  let total = 0;
+  let count = 0;
+  let hasUnitless = false;
+
+  value = value.trim();
+  quantityRegExp.lastIndex = 0;
+
+  while (quantityRegExp.lastIndex < value.length) {
+    const match = quantityRegExp.exec(value);
+    if (match === null || (count > 0 && !multiple))
+      return {kind: `invalid`};
+
+    const [, integerPart, fractionalPart = ``, unit = ``] = match;
+
+    if (unit === ``)
+      hasUnitless = true;
+
+    // Whitespace without unit is actually the separator between quantities
+    if (unit === `` && /\s$/.test(match[0]))
+      return {kind: `invalid`};
+
+    const resolvedUnit = unit !== `` ? unit : defaultUnit;
+    if (!Object.prototype.hasOwnProperty.call(units, resolvedUnit))
+      return {kind: `unknownUnit`, unit: resolvedUnit};
+
+    // We multiply before dividing so that decimal quantities (1.1kB) don't
+    // suffer from floating point errors
+    total += Number(`${integerPart}${fractionalPart}`) * units[resolvedUnit] / 10 ** fractionalPart.length;
+    count += 1;
+  }
+
+  if (count === 0 || (count > 1 && hasUnitless))
+    return {kind: `invalid`};
+
+  return {kind: `valid`, value: total};
+}
+
+function makeQuantityValidator({kind, options, units, defaultUnit, multiple, expectedMessage, expected, integer}: {kind: string, options: {[key: string]: unknown}, units: {[unit: string]: number}, defaultUnit: string, multiple: boolean, expectedMessage: string, expected: string, integer: boolean}) {
+  return makeBuiltinValidator<unknown, number>({
+    descriptor: {kind, options, children: []},
+    test: (value, state): value is number => {
+      if (typeof value === `number`)
+        return true;
+
+      if (typeof state?.coercions !== `undefined` && typeof value === `string`) {
+        if (typeof state?.coercion === `undefined`)
+          return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+        const result = parseQuantities(value, units, defaultUnit, {multiple});
+
+        if (result.kind === `unknownUnit`)
+          return pushError(state, `unknownUnit`, {unit: JSON.stringify(result.unit), expected: getPrintableArray(Object.keys(units), `or`, state?.catalog), received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: Object.keys(units), received: value});
+
+        if (result.kind === `valid`) {
+          const coercion = result.value / units[defaultUnit];
+
+          if (!Number.isFinite(coercion) || Math.abs(coercion) > Number.MAX_SAFE_INTEGER)
+            return pushError(state, `unsafeNumber`, {received: value}, {code: `unsafe_number`, received: value});
+
+          if (integer && !Number.isInteger(coercion))
+            return pushError(state, `expectedInteger`, {received: coercion}, {code: `not_integer`, received: coercion});
+
+          state.coercions.push([state.p ?? `.`, state.coercion.bind(null, coercion)]);
+          return true;
+        }
+      }
+
+      return pushError(state, expectedMessage, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected, received: value});
+    },
+  });
+}
+
+/**
+ * Create a validator that only returns true when the tested value is a
+ * number representing a duration in the given unit (milliseconds by
+ * default). Refines the type to `number`.
+ *
+ * Supports coercion from human-readable strings made of one or more
+ * quantities, such as `500ms`, `30s`, or `1h30m` (the supported units being
+ * `ms`, `s`, `m`, `h`, `d`, and `w`). A single quantity without unit is
+ * expressed in the requested unit.
+ */
+export function isDuration({
+  unit = `ms`,
+}: {
+  unit?: DurationUnit,
+} = {}) {
+  return makeQuantityValidator({kind: `duration`, options: {unit}, units: durationUnits, defaultUnit: unit, multiple: true, expectedMessage: `expectedDuration`, expected: `duration`, integer: false});
+}
+
+/**
+ * Create a validator that only returns true when the tested value is a
+ * number representing a size in bytes. Refines the type to `number`.
+ *
+ * Supports coercion from human-readable strings such as `512`, `10kB`, or
+ * `1.5GiB` (both the decimal units, `kB` to `PB`, and the binary units,
+ * `KiB` to `PiB`, are supported). The resulting number of bytes must be an
+ * integer.
+ */
+export function isByteSize() {
+  return makeQuantityValidator({kind: `byteSize`, options: {}, units: byteSizeUnits, defaultUnit: `B`, multiple: false, expectedMessage: `expectedByteSize`, expected: `byte size`, integer: true});
+}
+
 /**
  * Important: This validator only makes sense when used in conjunction with
  * coercion! It will always error when used without.
@@ -217,22 +522,23 @@ export function isNumber() {
  * expected type, and casts the value into its inner value.
  */
 export function isPayload<T extends AnyStrictValidator>(spec: T) {
-  return makeValidator<unknown, InferType<T>>({
+  return makeBuiltinValidator<unknown, InferType<T>>({
+    descriptor: {kind: `payload`, options: {spec}, children: [spec]},
     test: (value, state): value is InferType<T> => {
       if (typeof state?.coercions === `undefined`)
-        return pushError(state, `The isPayload predicate can only be used with coercion enabled`);
+        return pushError(state, `payloadCoercionRequired`, {}, {code: `coercion_required`});
 
       if (typeof state.coercion === `undefined`)
-        return pushError(state, `Unbound coercion result`);
+        return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
       if (typeof value !== `string`)
-        return pushError(state, `Expected a string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedString`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `string`, received: value});
 
       let inner: unknown;
       try {
         inner = JSON.parse(value);
       } catch {
-        return pushError(state, `Expected a JSON string (got ${getPrintable(value)})`);
+        return pushError(state, `expectedJsonString`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_json`, received: value});
       }
 
       const wrapper = {value: inner};
@@ -245,27 +551,62 @@ export function isPayload<T extends AnyStrictValidator>(spec: T) {
   });
 }
 
+const dateOnlyRegExp = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDateString(value: string, formats: ReadonlyArray<DateFormat>, requireOffset: boolean) {
+  if (formats.includes(`dateTime`)) {
+    if (iso8601RegExp.test(value))
+      return new Date(value);
+
+    // Date-times without offset are interpreted as UTC
+    if (!requireOffset && iso8601RegExp.test(`${value}Z`)) {
+      return new Date(`${value}Z`);
+    }
+  }
+
+  // We use the date-time regexp to check that the day actually exists
+  if (formats.includes(`date`) && dateOnlyRegExp.test(value) && iso8601RegExp.test(`${value}T00:00Z`))
+    return new Date(`${value}T00:00Z`);
+
+  return undefined;
+}
+
 /**
  * Create a validator that only returns true when the tested value is a
- * valid date. Refines the type to `Date`.
+ * valid date (`Invalid Date` instances are rejected). Refines the type to
+ * `Date`.
  * 
  * Supports coercion via one of the following formats:
- * - ISO86001 strings
- * - Unix timestamps
+ * - ISO86001 strings; by default only the date-times with an offset are
+ *   accepted (`2024-05-01T10:00Z`), but the `formats` option can allow
+ *   date-only strings (`2024-05-01`, interpreted as UTC midnight), and
+ *   `requireOffset` can be disabled to allow date-times without offset
+ *   (interpreted as UTC)
+ * - Unix timestamps, expressed in seconds unless `timestamps` is set to
+ *   `milliseconds`
  */
-export function isDate() {
-  return makeValidator<unknown, Date>({
+export function isDate({
+  timestamps = `seconds`,
+  formats = [`dateTime`],
+  requireOffset = true,
+}: {
+  timestamps?: `seconds` | `milliseconds`,
+  formats?: ReadonlyArray<DateFormat>,
+  requireOffset?: boolean,
+} = {}) {
+  return makeBuiltinValidator<unknown, Date>({
+    descriptor: {kind: `date`, options: {timestamps, formats, requireOffset}, children: []},
     test: (value, state): value is Date => {
       if (!(value instanceof Date)) {
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
-          let coercion: Date | undefined;
+          let coercion: Date | undefined = typeof value === `string`
+            ? parseDateString(value, formats, requireOffset)
+            : undefined;
 
-          if (typeof value === `string` && iso8601RegExp.test(value)) {
-            coercion = new Date(value);
-          } else {
+          if (typeof coercion === `undefined`) {
             let timestamp: number | undefined;
             if (typeof value === `string`) {
               let val;
@@ -281,28 +622,120 @@ export function isDate() {
             }
 
             if (typeof timestamp !== `undefined`) {
-              if (Number.isSafeInteger(timestamp) || !Number.isSafeInteger(timestamp * 1000)) {
+              if (timestamps === `milliseconds`) {
+                if (Number.isSafeInteger(timestamp)) {
+                  coercion = new Date(timestamp);
+                } else {
+                  return pushError(state, `unsafeTimestamp`, {received: String(value)}, {code: `unsafe_number`, received: value});
+                }
+              } else if (Number.isSafeInteger(timestamp) || !Number.isSafeInteger(timestamp * 1000)) {
                 coercion = new Date(timestamp * 1000);
               } else {
-                return pushError(state, `Received a timestamp that can't be safely represented by the runtime (${value})`);
+                return pushError(state, `unsafeTimestamp`, {received: String(value)}, {code: `unsafe_number`, received: value});
               }
             }
           }
 
-          if (typeof coercion !== `undefined`) {
+          // Timestamps too large to be represented by the runtime yield invalid dates
+          if (typeof coercion !== `undefined` && !isNaN(coercion.getTime())) {
             state.coercions.push([state.p ?? `.`, state.coercion.bind(null, coercion)]);
             return true;
           }
         }
 
-        return pushError(state, `Expected a date (got ${getPrintable(value)})`);
+        return pushError(state, `expectedDate`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `date`, received: value});
       }
 
+      if (isNaN(value.getTime()))
+        return pushError(state, `expectedDate`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `date`, received: value});
+
       return true;
     },
   });
 }
 
+type UrlPolicy = {
+  protocols: ReadonlyArray<string> | undefined,
+  allowCredentials: boolean,
+  allowLocalhost: boolean,
+};
+
+function isLocalHostname(hostname: string) {
+  // IPv6 hosts are wrapped into brackets, and fully qualified names may end with a dot
+  const host = hostname.replace(/^\[(.*)\]$/, `$1`).replace(/\.$/, ``).toLowerCase();
+  return host === `localhost` || host.endsWith(`.localhost`) || isLocalIP(host);
+}
+
+function checkUrlPolicy(url: URL, {protocols, allowCredentials, allowLocalhost}: UrlPolicy, state?: ValidationState) {
+  if (typeof protocols !== `undefined` && !protocols.some(protocol => getProtocolName(protocol) === getProtocolName(url.protocol)))
+    return pushError(state, `expectedUrlProtocol`, {expected: getPrintableArray(protocols as Array<string>, `or`, state?.catalog), received: getPrintable(url.protocol, state?.catalog)}, {code: `invalid_format`, expected: protocols, received: url.protocol});
+
+  // We don't report the received value, as it'd leak the credentials into the logs
+  if (!allowCredentials && (url.username !== `` || url.password !== ``))
+    return pushError(state, `forbiddenUrlCredentials`, {}, {code: `invalid_format`});
+
+  if (!allowLocalhost && isLocalHostname(url.hostname))
+    return pushError(state, `forbiddenUrlHost`, {received: getPrintable(url.hostname, state?.catalog)}, {code: `invalid_format`, received: url.hostname});
+
+  return true;
+}
+
+/**
+ * Create a validator that only returns true when the tested value is a `URL`
+ * instance. Refines the type to `URL`.
+ *
+ * Supports coercion from strings, which are parsed using the `URL`
+ * constructor.
+ *
+ * The `protocols` option restricts the accepted protocols (compared
+ * case-insensitively, with or without their trailing colon, so `https` and
+ * `https:` are equivalent), `allowCredentials` can be
+ * disabled to reject URLs containing a username or password, and
+ * `allowLocalhost` can be disabled to reject URLs targeting the local
+ * machine (`localhost`, loopback, and unspecified addresses). Private
+ * network ranges aren't covered by this option.
+ */
+export function isURL({
+  protocols,
+  allowCredentials = true,
+  allowLocalhost = true,
+}: {
+  protocols?: ReadonlyArray<string>,
+  allowCredentials?: boolean,
+  allowLocalhost?: boolean,
+} = {}) {
+  const policy: UrlPolicy = {protocols, allowCredentials, allowLocalhost};
+
+  return makeBuiltinValidator<unknown, URL>({
+    descriptor: {kind: `url`, options: policy, children: []},
+    test: (value, state): value is URL => {
+      if (!(value instanceof URL)) {
+        if (typeof state?.coercions !== `undefined` && typeof value === `string`) {
+          if (typeof state?.coercion === `undefined`)
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+          let coercion: URL;
+          try {
+            coercion = new URL(value);
+          } catch {
+            return pushError(state, `expectedUrl`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_format`, expected: `url`, received: value});
+          }
+
+          if (!checkUrlPolicy(coercion, policy, state))
+            return false;
+
+          state.coercions.push([state.p ?? `.`, state.coercion.bind(null, coercion)]);
+          return true;
+        }
+
+        return pushError(state, `expectedUrlInstance`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `url`, received: value});
+      }
+
+      return checkUrlPolicy(value, policy, state);
+    },
+  });
+}
+
 /**
  * Create a validator that only returns true when the tested value is an
  * array whose all values match the provided subspec. Refines the type to
@@ -312,28 +745,29 @@ export function isDate() {
  * will be split accordingly.
  */
 export function isArray<T extends AnyStrictValidator>(spec: T, {delimiter}: {delimiter?: string | RegExp} = {}) {
-  return makeValidator<unknown, Array<InferType<T>>>({
+  return makeBuiltinValidator<unknown, Array<InferType<T>>>({
+    descriptor: {kind: `array`, options: {spec, delimiter}, children: [spec]},
     test: (value, state): value is Array<InferType<T>> => {
       const originalValue = value;
 
       if (typeof value === `string` && typeof delimiter !== `undefined`) {
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           value = value.split(delimiter);
         }
       }
 
       if (!Array.isArray(value))
-        return pushError(state, `Expected an array (got ${getPrintable(value)})`);
+        return pushError(state, `expectedArray`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `array`, received: value});
 
       let valid = true;
 
       for (let t = 0, T = value.length; t < T; ++t) {
-        valid = spec(value[t], {...state, p: computeKey(state, t), coercion: makeCoercionFn(value, t)}) && valid;
+        valid = spec(value[t], {...state, p: computeKey(state, t), path: computePath(state, t), coercion: makeCoercionFn(value, t)}) && valid;
 
-        if (!valid && state?.errors == null) {
+        if (shouldStop(state, valid)) {
           break;
         }
       }
@@ -357,14 +791,15 @@ export function isArray<T extends AnyStrictValidator>(spec: T, {delimiter}: {del
 export function isSet<T extends AnyStrictValidator>(spec: T, {delimiter}: {delimiter?: string | RegExp} = {}) {
   const isArrayValidator = isArray(spec, {delimiter});
 
-  return makeValidator<unknown, Set<InferType<T>>>({
+  return makeBuiltinValidator<unknown, Set<InferType<T>>>({
+    descriptor: {kind: `set`, options: {spec, delimiter}, children: [spec]},
     test: (value, state): value is Set<InferType<T>> => {
       if (Object.getPrototypeOf(value).toString() === `[object Set]`) {
         softAssert(value, isInstanceOf(Set));
 
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           const originalValues = [...value];
           const coercedValues = [...value];
@@ -384,7 +819,7 @@ export function isSet<T extends AnyStrictValidator>(spec: T, {delimiter}: {delim
           for (const subValue of value) {
             valid = spec(subValue, {...state}) && valid;
       
-            if (!valid && state?.errors == null) {
+            if (shouldStop(state, valid)) {
               break;
             }
           }
@@ -395,7 +830,7 @@ export function isSet<T extends AnyStrictValidator>(spec: T, {delimiter}: {delim
 
       if (typeof state?.coercions !== `undefined`) {
         if (typeof state?.coercion === `undefined`)
-          return pushError(state, `Unbound coercion result`);
+          return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
         const store = {value};
         if (!isArrayValidator(value, {...state, coercion: makeCoercionFn(store, `value`)}))
@@ -405,7 +840,7 @@ export function isSet<T extends AnyStrictValidator>(spec: T, {delimiter}: {delim
         return true;
       }
 
-      return pushError(state, `Expected a set (got ${getPrintable(value)})`);
+      return pushError(state, `expectedSet`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `set`, received: value});
     }
   });
 };
@@ -423,14 +858,15 @@ export function isMap<TKey extends AnyStrictValidator, TValue extends AnyStrictV
   const isArrayValidator = isArray(isTuple([keySpec, valueSpec]));
   const isRecordValidator = isRecord(valueSpec, {keys: keySpec});
 
-  return makeValidator<unknown, Map<InferType<TKey>, InferType<TValue>>>({
+  return makeBuiltinValidator<unknown, Map<InferType<TKey>, InferType<TValue>>>({
+    descriptor: {kind: `map`, options: {keySpec, valueSpec}, children: [keySpec, valueSpec]},
     test: (value, state): value is Map<InferType<TKey>, InferType<TValue>> => {
       if (Object.getPrototypeOf(value).toString() === `[object Map]`) {
         softAssert(value, isInstanceOf(Map));
 
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           const originalValues = [...value];
           const coercedValues = [...value];
@@ -449,12 +885,12 @@ export function isMap<TKey extends AnyStrictValidator, TValue extends AnyStrictV
 
           for (const [key, subValue] of value) {
             valid = keySpec(key, {...state}) && valid;
-            if (!valid && state?.errors == null) {
+            if (shouldStop(state, valid)) {
               break;
             }
 
-            valid = valueSpec(subValue, {...state, p: computeKey(state, key)}) && valid;
-            if (!valid && state?.errors == null) {
+            valid = valueSpec(subValue, {...state, p: computeKey(state, key), path: computePath(state, key)}) && valid;
+            if (shouldStop(state, valid)) {
               break;
             }
           }
@@ -465,7 +901,7 @@ export function isMap<TKey extends AnyStrictValidator, TValue extends AnyStrictV
 
       if (typeof state?.coercions !== `undefined`) {
         if (typeof state?.coercion === `undefined`)
-          return pushError(state, `Unbound coercion result`);
+          return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
         const store = {value};
         if (Array.isArray(value)) {
@@ -483,7 +919,7 @@ export function isMap<TKey extends AnyStrictValidator, TValue extends AnyStrictV
         }
       }
 
-      return pushError(state, `Expected a map (got ${getPrintable(value)})`);
+      return pushError(state, `expectedMap`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `map`, received: value});
     }
   });
 };
@@ -504,12 +940,13 @@ type InferTypeFromTuple<T extends AnyStrictValidatorTuple> = {[K in keyof T]: In
 export function isTuple<T extends AnyStrictValidatorTuple>(spec: T, {delimiter}: {delimiter?: string | RegExp} = {}) {
   const lengthValidator = hasExactLength(spec.length);
 
-  return makeValidator<unknown, InferTypeFromTuple<T>>({
+  return makeBuiltinValidator<unknown, InferTypeFromTuple<T>>({
+    descriptor: {kind: `tuple`, options: {spec, delimiter}, children: spec},
     test: (value, state): value is InferTypeFromTuple<T> => {
       if (typeof value === `string` && typeof delimiter !== `undefined`) {
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           value = value.split(delimiter);
           state.coercions.push([state.p ?? `.`, state.coercion.bind(null, value)]);
@@ -517,14 +954,14 @@ export function isTuple<T extends AnyStrictValidatorTuple>(spec: T, {delimiter}:
       }
 
       if (!Array.isArray(value))
-        return pushError(state, `Expected a tuple (got ${getPrintable(value)})`);
+        return pushError(state, `expectedTuple`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `tuple`, received: value});
 
       let valid = lengthValidator(value, {...state});
 
       for (let t = 0, T = value.length; t < T && t < spec.length; ++t) {
-        valid = spec[t](value[t], {...state, p: computeKey(state, t), coercion: makeCoercionFn(value, t)}) && valid;
+        valid = spec[t](value[t], {...state, p: computeKey(state, t), path: computePath(state, t), coercion: makeCoercionFn(value, t)}) && valid;
 
-        if (!valid && state?.errors == null) {
+        if (shouldStop(state, valid)) {
           break;
         }
       }
@@ -550,12 +987,13 @@ export function isRecord<T extends AnyStrictValidator>(spec: T, {
 } = {}) {
   const isArrayValidator = isArray(isTuple([keySpec ?? isString(), spec]));
 
-  return makeValidator<unknown, Record<string, InferType<T>>>({
+  return makeBuiltinValidator<unknown, Record<string, InferType<T>>>({
+    descriptor: {kind: `record`, options: {spec, keys: keySpec}, children: keySpec !== null ? [keySpec, spec] : [spec]},
     test: (value, state): value is Record<string, InferType<T>> => {
       if (Array.isArray(value)) {
         if (typeof state?.coercions !== `undefined`) {
           if (typeof state?.coercion === `undefined`)
-            return pushError(state, `Unbound coercion result`);
+            return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
 
           if (!isArrayValidator(value, {...state, coercion: undefined}))
             return false;
@@ -568,17 +1006,17 @@ export function isRecord<T extends AnyStrictValidator>(spec: T, {
       }
 
       if (typeof value !== `object` || value === null)
-        return pushError(state, `Expected an object (got ${getPrintable(value)})`);
+        return pushError(state, `expectedObject`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `object`, received: value});
 
       const keys = Object.keys(value);
 
       let valid = true;
-      for (let t = 0, T = keys.length; t < T && (valid || state?.errors != null); ++t) {
+      for (let t = 0, T = keys.length; t < T && !shouldStop(state, valid); ++t) {
         const key = keys[t];
         const sub = (value as Record<string, unknown>)[key];
 
         if (key === `__proto__` || key === `constructor`) {
-          valid = pushError({...state, p: computeKey(state, key)}, `Unsafe property name`);
+          valid = pushError({...state, p: computeKey(state, key), path: computePath(state, key)}, `unsafePropertyName`, {}, {code: `unsafe_property_name`, received: key});
           continue;
         }
 
@@ -587,7 +1025,7 @@ export function isRecord<T extends AnyStrictValidator>(spec: T, {
           continue;
         }
 
-        if (!spec(sub, {...state, p: computeKey(state, key), coercion: makeCoercionFn(value, key)})) {
+        if (!spec(sub, {...state, p: computeKey(state, key), path: computePath(state, key), coercion: makeCoercionFn(value, key)})) {
           valid = false;
           continue;
         }
@@ -630,29 +1068,53 @@ type ObjectType<T> = UndefinedToOptional<RemoveIndex<T>> & ExtractIndex<T>;
  * 
  * Calling `t.isObject(..., {extra: t.isRecord(t.isUnknown())})` is
  * essentially the same as calling `t.isPartial(...)`.
+ *
+ * When no `extra` subspec is provided, the `unknownKeys` option controls
+ * what happens to the extraneous properties: `reject` (the default) reports
+ * them as errors, `passthrough` accepts them as-is, and `strip` accepts
+ * them but, when coercion is enabled, replaces the value by a copy only
+ * containing the declared properties (the original object isn't modified).
  */
 export function isObject<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator = StrictValidator<unknown, unknown>>(props: T, {
   extra: extraSpec = null,
+  unknownKeys = `reject`,
 }: {
   extra?: UnknownValidator | null,
+  unknownKeys?: UnknownKeysMode,
 } = {}) {
   const specKeys = Object.keys(props);
 
   // We need to store this type inside an alias, otherwise TS seems to miss the "value is ..." guard
   type RequestedShape = ObjectType<{[P in keyof T]: InferType<(typeof props)[P]>} & InferType<UnknownValidator>>;
 
-  const validator = makeValidator<unknown, RequestedShape>({
+  const validator = makeBuiltinValidator<unknown, RequestedShape>({
+    descriptor: {kind: `object`, options: {properties: props, extra: extraSpec, unknownKeys}, children: extraSpec !== null ? [...Object.values<AnyStrictValidator>(props), extraSpec] : Object.values<AnyStrictValidator>(props)},
     test: (value, state): value is RequestedShape => {
       if (typeof value !== `object` || value === null)
-        return pushError(state, `Expected an object (got ${getPrintable(value)})`);
+        return pushError(state, `expectedObject`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `object`, received: value});
 
       const keys = new Set([...specKeys, ...Object.keys(value)]);
       const extra: {[key: string]: unknown} = {};
 
+      // When stripping the extraneous properties, the declared ones are
+      // validated (and coerced) on a copy which then replaces the value
+      let target = value;
+      if (extraSpec === null && unknownKeys === `strip` && typeof state?.coercions !== `undefined` && Object.keys(value).some(key => !Object.prototype.hasOwnProperty.call(props, key))) {
+        if (typeof state?.coercion === `undefined`)
+          return pushError(state, `unboundCoercion`, {}, {code: `unbound_coercion`});
+
+        target = {};
+        for (const key of specKeys)
+          if (Object.prototype.hasOwnProperty.call(value, key))
+            (target as any)[key] = (value as any)[key];
+
+        state.coercions.push([state.p ?? `.`, state.coercion.bind(null, target)]);
+      }
+
       let valid = true;
       for (const key of keys) {
         if (key === `constructor` || key === `__proto__`) {
-          valid = pushError({...state, p: computeKey(state, key)}, `Unsafe property name`);
+          valid = pushError({...state, p: computeKey(state, key), path: computePath(state, key)}, `unsafePropertyName`, {}, {code: `unsafe_property_name`, received: key});
         } else {
           const spec = Object.prototype.hasOwnProperty.call(props, key)
             ? (props as any)[key] as AnyStrictValidator | undefined
@@ -663,9 +1125,11 @@ export function isObject<T extends {[P in keyof T]: AnyStrictValidator}, Unknown
             : undefined;
 
           if (typeof spec !== `undefined`) {
-            valid = spec(sub, {...state, p: computeKey(state, key), coercion: makeCoercionFn(value, key)}) && valid;
+            valid = spec(sub, {...state, p: computeKey(state, key), path: computePath(state, key), coercion: makeCoercionFn(target, key)}) && valid;
+          } else if (extraSpec === null && unknownKeys !== `reject`) {
+            continue;
           } else if (extraSpec === null) {
-            valid = pushError({...state, p: computeKey(state, key)}, `Extraneous property (got ${getPrintable(sub)})`);
+            valid = pushError({...state, p: computeKey(state, key), path: computePath(state, key)}, `extraneousProperty`, {received: getPrintable(sub, state?.catalog)}, {code: `extraneous_property`, received: sub});
           } else {
             Object.defineProperty(extra, key, {
               enumerable: true,
@@ -675,12 +1139,12 @@ export function isObject<T extends {[P in keyof T]: AnyStrictValidator}, Unknown
           }
         }
 
-        if (!valid && state?.errors == null) {
+        if (shouldStop(state, valid)) {
           break;
         }
       }
 
-      if (extraSpec !== null && (valid || state?.errors != null))
+      if (extraSpec !== null && !shouldStop(state, valid))
         valid = extraSpec(extra, state) && valid;
 
       return valid;
@@ -689,6 +1153,8 @@ export function isObject<T extends {[P in keyof T]: AnyStrictValidator}, Unknown
 
   return Object.assign(validator, {
     properties: props,
+    extra: extraSpec,
+    unknownKeys,
   });
 };
 
@@ -709,20 +1175,177 @@ export function isPartial<T extends {[P in keyof T]: AnyStrictValidator}>(props:
   return isObject(props, {extra: isRecord(isUnknown())});
 };
 
+type ObjectSpec<T, UnknownValidator extends AnyStrictValidator> = {
+  properties: T,
+  extra: UnknownValidator | null,
+  unknownKeys?: UnknownKeysMode,
+};
+
+type DeepPartialProperties<T> = {[P in keyof T]: StrictValidator<unknown, (T[P] extends ObjectSpec<infer U, infer UnknownValidator>
+  ? ObjectType<{[Q in keyof DeepPartialProperties<U>]: InferType<DeepPartialProperties<U>[Q]>} & InferType<UnknownValidator>>
+  : InferType<T[P]>) | undefined>};
+
+/**
+ * Create an object validator only containing the selected properties of the
+ * given object validator. Extraneous properties will be handled the same way
+ * as in the original validator.
+ */
+export function pick<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator, K extends keyof T & string>(spec: ObjectSpec<T, UnknownValidator>, keys: ReadonlyArray<K>) {
+  const props = {} as Pick<T, K>;
+
+  for (const key of keys)
+    if (Object.prototype.hasOwnProperty.call(spec.properties, key))
+      props[key] = spec.properties[key];
+
+  return isObject<Pick<T, K>, UnknownValidator>(props, {extra: spec.extra, unknownKeys: spec.unknownKeys});
+}
+
+/**
+ * Create an object validator containing all the properties of the given
+ * object validator except the selected ones. Extraneous properties will be
+ * handled the same way as in the original validator (which means that the
+ * omitted properties will be rejected unless `extra` allows them).
+ */
+export function omit<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator, K extends keyof T & string>(spec: ObjectSpec<T, UnknownValidator>, keys: ReadonlyArray<K>) {
+  const props = {} as Omit<T, K>;
+
+  const omittedKeys = new Set<keyof T>(keys);
+  const isKept = (key: keyof T): key is Exclude<keyof T, K> => !omittedKeys.has(key);
+
+  for (const key of (Object.keys(spec.properties) as Array<keyof T>).filter(isKept))
+    props[key] = spec.properties[key];
+
+  return isObject<Omit<T, K>, UnknownValidator>(props, {extra: spec.extra, unknownKeys: spec.unknownKeys});
+}
+
+/**
+ * Create an object validator containing the properties of the given object
+ * validator along with the provided ones. Properties declared in both will
+ * use the new subspecs.
+ */
+export function extend<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator, U extends {[P in keyof U]: AnyStrictValidator}>(spec: ObjectSpec<T, UnknownValidator>, props: U) {
+  return isObject<Omit<T, keyof U> & U, UnknownValidator>({...spec.properties, ...props}, {extra: spec.extra, unknownKeys: spec.unknownKeys});
+}
+
+/**
+ * Create an object validator where all the properties of the given object
+ * validator are wrapped into `t.isOptional`.
+ */
+export function partial<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator>(spec: ObjectSpec<T, UnknownValidator>) {
+  const props = {} as {[P in keyof T]: StrictValidator<unknown, InferType<T[P]> | undefined>};
+
+  for (const key of Object.keys(spec.properties) as Array<keyof T>)
+    props[key] = isOptional(spec.properties[key]);
+
+  return isObject(props, {extra: spec.extra, unknownKeys: spec.unknownKeys});
+}
+
+/**
+ * Create an object validator where all the properties of the given object
+ * validator that were wrapped into `t.isOptional` are unwrapped, making them
+ * required.
+ */
+export function required<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator>(spec: ObjectSpec<T, UnknownValidator>) {
+  const props = {} as {[P in keyof T]: StrictValidator<unknown, Exclude<InferType<T[P]>, undefined>>};
+
+  for (const key of Object.keys(spec.properties) as Array<keyof T>) {
+    let sub: AnyStrictValidator = spec.properties[key];
+
+    for (let descriptor = getDescriptor(sub); descriptor?.kind === `optional`; descriptor = getDescriptor(sub))
+      sub = descriptor.options.spec;
+
+    props[key] = sub;
+  }
+
+  return isObject(props, {extra: spec.extra, unknownKeys: spec.unknownKeys});
+}
+
+/**
+ * Same as `t.partial`, but also recursively applies to the properties that
+ * are themselves object validators.
+ */
+export function deepPartial<T extends {[P in keyof T]: AnyStrictValidator}, UnknownValidator extends AnyStrictValidator>(spec: ObjectSpec<T, UnknownValidator>): StrictValidator<unknown, ObjectType<{[P in keyof T]: InferType<DeepPartialProperties<T>[P]>} & InferType<UnknownValidator>>> & ObjectSpec<DeepPartialProperties<T>, UnknownValidator> {
+  const props = {} as DeepPartialProperties<T>;
+
+  for (const key of Object.keys(spec.properties) as Array<keyof T>) {
+    const sub: AnyStrictValidator = spec.properties[key];
+
+    const descriptor = getDescriptor(sub);
+    props[key] = isOptional(descriptor?.kind === `object` ? deepPartial(descriptor.options as ObjectSpec<any, AnyStrictValidator>) : sub);
+  }
+
+  return isObject(props, {extra: spec.extra, unknownKeys: spec.unknownKeys});
+}
+
 /**
  * Create a validator that only returns true when the tested value is an
  * object whose prototype is derived from the given class. Refines the type
  * into a class instance.
  */
-export const isInstanceOf = <T extends new (...args: any) => InstanceType<T>>(constructor: T) => makeValidator<unknown, InstanceType<T>>({
+export const isInstanceOf = <T extends new (...args: any) => InstanceType<T>>(constructor: T) => makeBuiltinValidator<unknown, InstanceType<T>>({
+  descriptor: {kind: `instanceOf`, options: {constructor}, children: []},
   test: (value, state): value is InstanceType<T> => {
     if (!(value instanceof constructor))
-      return pushError(state, `Expected an instance of ${constructor.name} (got ${getPrintable(value)})`);
+      return pushError(state, `expectedInstance`, {expected: constructor.name, received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: constructor.name, received: value});
 
     return true;
   },
 });
 
+type OneOfBranch = {
+  name: string,
+  valid: boolean,
+  errors: string[] | undefined,
+  issues: ValidationIssue[] | undefined,
+  coercions: Coercion[] | undefined,
+};
+
+function settleOneOf(state: ValidationState | undefined, value: unknown, branches: OneOfBranch[], exclusive: boolean) {
+  const matches: OneOfBranch[] = [];
+
+  for (const branch of branches) {
+    if (branch.valid) {
+      matches.push(branch);
+      if (!exclusive) {
+        break;
+      }
+    }
+  }
+
+  if (matches.length === 1) {
+    const {coercions: subCoercions} = matches[0];
+    if (typeof subCoercions !== `undefined`)
+      state?.coercions?.push(...subCoercions);
+    return true;
+  }
+
+  if (matches.length > 1) {
+    pushError(state, `expectedSingleMatch`, {received: matches.map(({name}) => name).join(formatMessage(state?.catalog, `listSeparator`))}, {code: `invalid_union`, received: value});
+  } else {
+    // Custom validators may fail without reporting anything, in which case
+    // we can only report that no branch matched
+    const failures = branches.filter(branch => {
+      return (branch.errors?.length ?? 0) > 0 || (branch.issues?.length ?? 0) > 0;
+    });
+
+    if (failures.length === 0)
+      pushError(state, `expectedUnionMatch`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_union`, received: value});
+
+    for (const branch of failures) {
+      if (!reserveError(state))
+        continue;
+
+      if (typeof branch.errors?.[0] !== `undefined`)
+        state?.errors?.push(branch.errors[0]);
+      if (typeof branch.issues?.[0] !== `undefined`) {
+        state?.issues?.push(branch.issues[0]);
+      }
+    }
+  }
+
+  return false;
+}
+
 /**
  * Create a validator that only returns true when the tested value is an
  * object matching any of the provided subspecs. If the optional `exclusive`
@@ -733,41 +1356,167 @@ export const isOneOf = <T extends AnyStrictValidator>(specs: ReadonlyArray<T>, {
   exclusive = false,
 }: {
   exclusive?: boolean,
-} = {}) => makeValidator<unknown, InferType<T>>({
+} = {}) => makeBuiltinValidator<unknown, InferType<T>>({
+  descriptor: {kind: `oneOf`, options: {specs, exclusive}, children: specs},
   test: (value, state): value is InferType<T> => {
-    const matches: [string, (Coercion[] | undefined)][] = [];
-    const errorBuffer = typeof state?.errors !== `undefined`
-      ? [] : undefined;
+    const branches: OneOfBranch[] = [];
+    const branchesPending: Array<Array<Promise<boolean>> | undefined> = [];
+
+    let hasPending = false;
 
     for (let t = 0, T = specs.length; t < T; ++t) {
       const subErrors = typeof state?.errors !== `undefined`
         ? [] : undefined;
 
+      const subIssues = typeof state?.issues !== `undefined`
+        ? [] : undefined;
+
       const subCoercions = typeof state?.coercions !== `undefined`
         ? [] : undefined;
 
-      if (specs[t](value, {...state, errors: subErrors, coercions: subCoercions, p: `${state?.p ?? `.`}#${t + 1}`})) {
-        matches.push([`#${t + 1}`, subCoercions]);
-        if (!exclusive) {
-          break;
-        }
-      } else {
-        errorBuffer?.push(subErrors![0]);
+      const subPending = typeof state?.pending !== `undefined`
+        ? [] as Array<Promise<boolean>> : undefined;
+
+      // The branch errors only count against the limit if they get reported
+      const valid = specs[t](value, {...state, errors: subErrors, issues: subIssues, coercions: subCoercions, pending: subPending, errorLimit: undefined, p: `${state?.p ?? `.`}#${t + 1}`});
+
+      branches.push({name: `#${t + 1}`, valid, errors: subErrors, issues: subIssues, coercions: subCoercions});
+      branchesPending.push(subPending);
+
+      if (typeof subPending !== `undefined` && subPending.length > 0)
+        hasPending = true;
+
+      // We can't stop at the first match if the previous branches still have
+      // async checks in flight, since they would have had precedence
+      if (valid && !exclusive && !hasPending) {
+        break;
       }
     }
 
-    if (matches.length === 1) {
-      const [, subCoercions] = matches[0];
-      if (typeof subCoercions !== `undefined`)
-        state?.coercions?.push(...subCoercions);
-      return true;
-    }
+    if (!hasPending)
+      return settleOneOf(state, value, branches, exclusive);
 
-    if (matches.length > 1)
-      pushError(state, `Expected to match exactly a single predicate (matched ${matches.join(`, `)})`);
-    else
-      state?.errors?.push(...errorBuffer!);
+    state!.pending!.push(Promise.all(branches.map(async (branch, t) => {
+      const pending = branchesPending[t];
 
-    return false;
+      const asyncValid = typeof pending !== `undefined`
+        ? await resolvePending(pending)
+        : true;
+
+      return {...branch, valid: branch.valid && asyncValid};
+    })).then(settledBranches => {
+      return settleOneOf(state, value, settledBranches, exclusive);
+    }));
+
+    return true;
   },
 });
+
+// https://stackoverflow.com/a/50375286
+type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends ((k: infer I) => void) ? I : never;
+
+function mergeObjects(descriptors: ReadonlyArray<ValidatorDescriptor>) {
+  const propertySpecs = new Map<string, Array<AnyStrictValidator>>();
+  const extraSpecs: Array<AnyStrictValidator> = [];
+
+  let allowsExtra = true;
+  let unknownKeys: UnknownKeysMode = `passthrough`;
+
+  for (const {options: {properties, extra, unknownKeys: memberUnknownKeys}} of descriptors) {
+    for (const [key, spec] of Object.entries<AnyStrictValidator>(properties)) {
+      let specs = propertySpecs.get(key);
+      if (typeof specs === `undefined`)
+        propertySpecs.set(key, specs = []);
+
+      specs.push(spec);
+    }
+
+    if (extra !== null) {
+      extraSpecs.push(extra);
+    } else if (memberUnknownKeys === `strip`) {
+      unknownKeys = `strip`;
+    } else if (memberUnknownKeys !== `passthrough`) {
+      allowsExtra = false;
+    }
+  }
+
+  const properties: {[key: string]: AnyStrictValidator} = {};
+  for (const [key, specs] of propertySpecs)
+    properties[key] = specs.length === 1 ? specs[0] : isAllOf(specs);
+
+  // Members stripping or passing through the extraneous properties accept
+  // them regardless of their values, so only the `extra` subspecs remain
+  const extra = allowsExtra && extraSpecs.length > 0
+    ? extraSpecs.length === 1 ? extraSpecs[0] : isAllOf(extraSpecs)
+    : null;
+
+  return isObject(properties, {extra, unknownKeys: allowsExtra ? unknownKeys : `reject`});
+}
+
+/**
+ * Create a validator that only returns true when the tested value matches
+ * all of the provided subspecs. Refines the type into the intersection of
+ * all candidates.
+ *
+ * When all subspecs are `t.isObject` validators, their properties are
+ * merged into a single `t.isObject` validator instead, so that the
+ * properties declared by one member aren't reported as extraneous by the
+ * others. Properties declared by multiple members must match each of their
+ * subspecs, and extraneous properties are only allowed if all members allow
+ * them.
+ */
+export function isAllOf<T extends AnyStrictValidator>(specs: ReadonlyArray<T>): StrictValidator<unknown, UnionToIntersection<InferType<T>>> {
+  // We need to store this type inside an alias, otherwise TS seems to miss the "value is ..." guard
+  type RequestedShape = UnionToIntersection<InferType<T>>;
+
+  const descriptors = specs.map(spec => getDescriptor(spec));
+  if (specs.length > 0 && descriptors.every(descriptor => descriptor?.kind === `object`))
+    return mergeObjects(descriptors as Array<ValidatorDescriptor>) as StrictValidator<unknown, any>;
+
+  return makeBuiltinValidator<unknown, RequestedShape>({
+    descriptor: {kind: `allOf`, options: {specs}, children: specs},
+    test: (value, state): value is RequestedShape => {
+      let valid = true;
+
+      for (const spec of specs) {
+        valid = spec(value, state) && valid;
+
+        if (shouldStop(state, valid)) {
+          break;
+        }
+      }
+
+      return valid;
+    },
+  });
+}
+
+/**
+ * Create a validator that only returns true when the tested value is an
+ * object whose discriminator property designates one of the given variants,
+ * and which matches this variant's subspec. Unlike `t.isOneOf`, the variant
+ * is looked up directly rather than tried in turn, and only its errors will
+ * be reported. Refines the type into the union of all variants, each one
+ * being narrowed to its discriminator value.
+ */
+export function isDiscriminatedUnion<K extends string, T extends {[variant: string]: AnyStrictValidator}>(key: K, variants: T) {
+  const variantNames = Object.keys(variants);
+
+  // We need to store this type inside an alias, otherwise TS seems to miss the "value is ..." guard
+  type RequestedShape = {[V in keyof T & string]: InferType<T[V]> & {[P in K]: V}}[keyof T & string];
+
+  return makeBuiltinValidator<unknown, RequestedShape>({
+    descriptor: {kind: `discriminatedUnion`, options: {key, variants}, children: Object.values(variants)},
+    test: (value, state): value is RequestedShape => {
+      if (typeof value !== `object` || value === null)
+        return pushError(state, `expectedObject`, {received: getPrintable(value, state?.catalog)}, {code: `invalid_type`, expected: `object`, received: value});
+
+      const discriminator = (value as any)[key];
+
+      if (typeof discriminator !== `string` || !Object.prototype.hasOwnProperty.call(variants, discriminator))
+        return pushError({...state, p: computeKey(state, key), path: computePath(state, key)}, `unknownDiscriminator`, {expected: getPrintableArray(variantNames, `or`, state?.catalog), received: getPrintable(discriminator, state?.catalog)}, {code: `invalid_discriminator`, expected: variantNames, received: discriminator});
+
+      return variants[discriminator](value, state);
+    },
+  });
+}
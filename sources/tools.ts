@@ -1,36 +1,146 @@
 import {
+  formatMessage,
+} from './internal/format';
+
+import {
+  getDescriptor,
   makeCoercionFn,
+  pushError,
+  resolvePending,
+  setDescriptor,
 } from './internal/tools';
 
+import {
+  defaultCatalog,
+} from './messages';
+
 import {
   isTuple,
 } from './predicates/typePredicates';
 
 import {
   AnyStrictValidator,
+  AsyncTest,
   Coercion,
   InferType,
   LooseTest,
   LooseValidator,
+  MessageCatalog,
   StrictTest,
   StrictValidator,
   Trait,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationState,
+  ValidatorDescriptor,
+  ValidatorVisitor,
 } from './types';
 
+export type ErrorReportingOptions = {
+  catalog?: MessageCatalog,
+  /**
+   * Maximal number of errors to report. The following ones are only counted,
+   * and mentioned by a notice added at the end of the errors.
+   */
+  maxErrors?: number,
+  /**
+   * Stop validating the children of a value (array items, object properties,
+   * etc) as soon as one of them is invalid, rather than reporting all errors.
+   */
+  abortEarly?: boolean,
+};
+
+export type AsOptions = ErrorReportingOptions & {
+  coerce?: boolean,
+};
+
 export function makeTrait<U>(value: U) {
   return <V>() => {
     return value as U & Trait<V>;
   };
 }
 
-export function makeValidator<U, V extends U>({test}: {test: StrictTest<U, V>}): StrictValidator<U, V>;
-export function makeValidator<U, V extends U = U>({test}: {test: LooseTest<U>}): LooseValidator<U, V>;
-export function makeValidator<U, V extends U>({test}: {test: StrictTest<U, V> | LooseTest<U>}) {
+export function makeValidator<U, V extends U>({test, descriptor}: {test: StrictTest<U, V>, descriptor?: ValidatorDescriptor}): StrictValidator<U, V>;
+export function makeValidator<U, V extends U = U>({test, descriptor}: {test: LooseTest<U>, descriptor?: ValidatorDescriptor}): LooseValidator<U, V>;
+export function makeValidator<U, V extends U>({test, descriptor}: {test: StrictTest<U, V> | LooseTest<U>, descriptor?: ValidatorDescriptor}) {
+  if (typeof descriptor !== `undefined`)
+    setDescriptor(test, descriptor);
+
   return makeTrait(test)<V>();
 }
 
+/**
+ * Create a validator whose test runs asynchronously (for example to check
+ * that a value doesn't already exist in a database). Async validators can
+ * be nested anywhere inside regular ones, but can only be run through
+ * `asAsync`; they will always fail otherwise.
+ */
+export function makeAsyncValidator<U, V extends U = U>({test, descriptor}: {test: AsyncTest<U>, descriptor?: ValidatorDescriptor}) {
+  return makeValidator<U, V>({
+    descriptor,
+    test: (value, state): value is V => {
+      if (typeof state?.pending === `undefined`)
+        return pushError(state, `asyncRequired`, {}, {code: `async_required`});
+
+      state.pending.push(test(value, state));
+      return true;
+    },
+  });
+}
+
+/**
+ * Report a validation error from a custom validator, respecting the options
+ * passed to `as` (including `maxErrors` and `abortEarly`) and populating both
+ * the errors and the issues. Always returns `false`, so it can be returned
+ * directly from the test.
+ */
+export function reportError(state: ValidationState | undefined, message: string, {code = `custom`, expected, received}: {code?: ValidationIssueCode, expected?: unknown, received?: unknown} = {}) {
+  const details: {code: ValidationIssueCode, expected?: unknown, received?: unknown} = {code};
+
+  if (typeof expected !== `undefined`)
+    details.expected = expected;
+  if (typeof received !== `undefined`)
+    details.received = received;
+
+  return pushError(state, `customMessage`, {message}, details);
+}
+
+/**
+ * Return the descriptor attached to the given validator, or `null` if the
+ * validator doesn't have one (which is typically the case for validators
+ * created via `makeValidator` without explicit descriptor).
+ */
+export function describe(validator: LooseTest<any>): ValidatorDescriptor | null {
+  return getDescriptor(validator);
+}
+
+/**
+ * Traverse the validator tree depth-first, calling the visitor on each node.
+ * Returning `false` from the visitor prevents the children of the current
+ * node from being visited.
+ */
+export function walk(validator: LooseTest<any>, visitor: ValidatorVisitor) {
+  const visit = (current: LooseTest<any>, parents: ReadonlyArray<LooseTest<any>>) => {
+    const descriptor = getDescriptor(current);
+    if (visitor(current, descriptor, parents) === false || descriptor === null)
+      return;
+
+    const nextParents = [...parents, current];
+    for (const child of descriptor.children) {
+      // Recursive validators would otherwise cause infinite loops
+      if (!nextParents.includes(child)) {
+        visit(child, nextParents);
+      }
+    }
+  };
+
+  visit(validator, []);
+}
+
 export class TypeAssertionError extends Error {
-  constructor({errors}: {errors?: string[]} = {}) {
+  public readonly issues: ValidationIssue[];
+
+  constructor({errors, issues = []}: {errors?: string[], issues?: ValidationIssue[]} = {}) {
     let errorMessage = `Type mismatch`;
 
     if (errors && errors.length > 0) {
@@ -41,6 +151,8 @@ export class TypeAssertionError extends Error {
     }
 
     super(errorMessage);
+
+    this.issues = issues;
   }
 }
 
@@ -54,6 +166,24 @@ export function assert<T extends AnyStrictValidator>(val: unknown, validator: T)
   }
 }
 
+function makeReportingState(errors: string[] | undefined, issues: ValidationIssue[] | undefined, {catalog, maxErrors, abortEarly}: ErrorReportingOptions): ValidationState {
+  const errorLimit = typeof errors !== `undefined` && typeof maxErrors !== `undefined`
+    ? {max: maxErrors, count: 0}
+    : undefined;
+
+  return {errors, issues, catalog, abortEarly, errorLimit};
+}
+
+function addTruncationNotice({errors, errorLimit, catalog}: ValidationState) {
+  if (typeof errors === `undefined` || typeof errorLimit === `undefined` || errorLimit.count <= errorLimit.max)
+    return;
+
+  const count = errorLimit.count - errorLimit.max;
+  const formattedCount = count.toLocaleString((catalog ?? defaultCatalog).locale);
+
+  errors.push(formatMessage(catalog, `moreErrors`, {count, formattedCount}));
+}
+
 /**
  * Check that the specified value matches the given validator, and throws an
  * exception if it doesn't. Refine the type if it passes.
@@ -61,10 +191,15 @@ export function assert<T extends AnyStrictValidator>(val: unknown, validator: T)
  * Thrown exceptions include details about what exactly looks invalid in the
  * tested value.
  */
-export function assertWithErrors<T extends AnyStrictValidator>(val: unknown, validator: T): asserts val is InferType<T> {
+export function assertWithErrors<T extends AnyStrictValidator>(val: unknown, validator: T, opts: ErrorReportingOptions = {}): asserts val is InferType<T> {
   const errors: string[] = [];
-  if (!validator(val, {errors})) {
-    throw new TypeAssertionError({errors});
+  const issues: ValidationIssue[] = [];
+
+  const state = makeReportingState(errors, issues, opts);
+
+  if (!validator(val, state)) {
+    addTruncationNotice(state);
+    throw new TypeAssertionError({errors, issues});
   }
 }
 
@@ -82,22 +217,37 @@ export function softAssert<T extends AnyStrictValidator>(val: unknown, validator
  * first element is the validated value, and the second the reported errors.
  * 
  * If the `errors` field is set to `false` (the default), the error reporting
- * will be a single boolean. If set to `true`, it'll be an array of strings.
+ * will be a single boolean. If set to `true`, it'll be an array of strings,
+ * and the structured version of each error will be available in `issues`.
+ * The messages can be translated by providing a `catalog`, and their number
+ * can be limited using `maxErrors` and `abortEarly`.
  */
-export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts: {coerce?: boolean, errors?: boolean, throw: true}): InferType<T>;
-export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts: {coerce?: boolean, errors: false, throw?: false}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: true};
-export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts: {coerce?: boolean, errors: true, throw?: false}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string>};
-export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts?: {coerce?: boolean, errors?: boolean, throw?: false}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string> | true};
-export function as<T extends AnyStrictValidator>(value: unknown, validator: T, {coerce = false, errors: storeErrors, throw: throws}: {coerce?: boolean, errors?: boolean, throw?: boolean} = {}): InferType<T> | {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string> | true} {
-  const errors = storeErrors ? [] : undefined;
+export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts: AsOptions & {errors?: boolean, throw: true}): InferType<T>;
+export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts: AsOptions & {errors: false, throw?: false}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: true};
+export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts: AsOptions & {errors: true, throw?: false}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string>, issues: Array<ValidationIssue>};
+export function as<T extends AnyStrictValidator>(value: unknown, validator: T, opts?: AsOptions & {errors?: boolean, throw?: false}): {value: InferType<T>, errors: undefined} | {value: unknown, errors: true} | {value: unknown, errors: Array<string>, issues: Array<ValidationIssue>};
+export function as<T extends AnyStrictValidator>(value: unknown, validator: T, {coerce = false, errors: storeErrors, throw: throws, ...opts}: AsOptions & {errors?: boolean, throw?: boolean} = {}): InferType<T> | {value: InferType<T>, errors: undefined} | {value: unknown, errors: true} | {value: unknown, errors: Array<string>, issues: Array<ValidationIssue>} {
+  const errors = storeErrors ? [] as string[] : undefined;
+  const issues = storeErrors ? [] as ValidationIssue[] : undefined;
+
+  const reportingState = makeReportingState(errors, issues, opts);
+
+  const failure = () => {
+    addTruncationNotice(reportingState);
+
+    if (throws)
+      throw new TypeAssertionError({errors, issues});
+
+    return errors && issues
+      ? {value: undefined as never, errors, issues}
+      : {value: undefined as never, errors: true as const};
+  };
 
   if (!coerce) {
-    if (validator(value, {errors})) {
+    if (validator(value, reportingState)) {
       return throws ? value : {value, errors: undefined};
-    } else if (!throws) {
-      return {value: undefined as never, errors: errors ?? true};
     } else {
-      throw new TypeAssertionError({errors})
+      return failure();
     }
   }
 
@@ -106,16 +256,61 @@ export function as<T extends AnyStrictValidator>(value: unknown, validator: T, {
   const coercion = makeCoercionFn(state, `value`);
   const coercions: Coercion[] = [];
 
-  if (!validator(value, {errors, coercion, coercions})) {
+  if (!validator(value, {...reportingState, coercion, coercions}))
+    return failure();
+
+  for (const [, apply] of coercions)
+    apply();
+
+  if (throws) {
+    return state.value as InferType<T>;
+  } else {
+    return {value: state.value as InferType<T>, errors: undefined};
+  }
+}
+
+/**
+ * Same as `as`, but returns a promise and supports async validators. Their
+ * checks will run concurrently, and the coercions will only be applied once
+ * all of them have succeeded.
+ */
+export function asAsync<T extends AnyStrictValidator>(value: unknown, validator: T, opts: AsOptions & {errors?: boolean, throw: true}): Promise<InferType<T>>;
+export function asAsync<T extends AnyStrictValidator>(value: unknown, validator: T, opts: AsOptions & {errors: false, throw?: false}): Promise<{value: InferType<T>, errors: undefined} | {value: unknown, errors: true}>;
+export function asAsync<T extends AnyStrictValidator>(value: unknown, validator: T, opts: AsOptions & {errors: true, throw?: false}): Promise<{value: InferType<T>, errors: undefined} | {value: unknown, errors: Array<string>, issues: Array<ValidationIssue>}>;
+export function asAsync<T extends AnyStrictValidator>(value: unknown, validator: T, opts?: AsOptions & {errors?: boolean, throw?: false}): Promise<{value: InferType<T>, errors: undefined} | {value: unknown, errors: true} | {value: unknown, errors: Array<string>, issues: Array<ValidationIssue>}>;
+export async function asAsync<T extends AnyStrictValidator>(value: unknown, validator: T, {coerce = false, errors: storeErrors, throw: throws, ...opts}: AsOptions & {errors?: boolean, throw?: boolean} = {}): Promise<InferType<T> | {value: InferType<T>, errors: undefined} | {value: unknown, errors: true} | {value: unknown, errors: Array<string>, issues: Array<ValidationIssue>}> {
+  const errors = storeErrors ? [] as string[] : undefined;
+  const issues = storeErrors ? [] as ValidationIssue[] : undefined;
+
+  const reportingState = makeReportingState(errors, issues, opts);
+
+  const state = {value};
+
+  const coercion = coerce ? makeCoercionFn(state, `value`) : undefined;
+  const coercions = coerce ? [] as Coercion[] : undefined;
+
+  const pending: Array<Promise<boolean>> = [];
+
+  // We always wait for the pending checks, even if the synchronous ones
+  // failed, so that all the errors get reported
+  const syncValid = validator(value, {...reportingState, coercion, coercions, pending});
+  const asyncValid = await resolvePending(pending);
+
+  if (!syncValid || !asyncValid) {
+    addTruncationNotice(reportingState);
+
     if (!throws) {
-      return {value: undefined as never, errors: errors ?? true};
+      return errors && issues
+        ? {value: undefined as never, errors, issues}
+        : {value: undefined as never, errors: true};
     } else {
-      throw new TypeAssertionError({errors});
+      throw new TypeAssertionError({errors, issues});
     }
   }
 
-  for (const [, apply] of coercions)
-    apply();
+  if (typeof coercions !== `undefined`)
+    for (const [, apply] of coercions)
+      apply();
 
   if (throws) {
     return state.value as InferType<T>;
@@ -10,6 +10,7 @@ export type InferType<U> = U extends Trait<infer V> ? V : never;
 export type Trait<Type> = {__trait: Type};
 
 export type LooseTest<U> = (value: U, test?: ValidationState) => boolean;
+export type AsyncTest<U> = (value: U, test?: ValidationState) => Promise<boolean>;
 export type StrictTest<U, V extends U> = (value: U, test?: ValidationState) => value is V;
 
 export type LooseValidator<U, V> = LooseTest<U> & Trait<V>;
@@ -17,9 +18,89 @@ export type StrictValidator<U, V extends U> = StrictTest<U, V> & Trait<V>;
 
 export type AnyStrictValidator = StrictValidator<any, any>;
 
+export type UnknownKeysMode = `reject` | `strip` | `passthrough`;
+
+export type DateFormat = `dateTime` | `date`;
+
+export type DurationUnit = `ms` | `s` | `m` | `h` | `d` | `w`;
+
+export type IPVersion = 4 | 6;
+
+/**
+ * Metadata attached to the validators created by the builtin factories,
+ * describing what they check without having to run them.
+ */
+export type ValidatorDescriptor = {
+  kind: string,
+  options: {[key: string]: any},
+  children: ReadonlyArray<LooseTest<any>>,
+};
+
+export type ValidatorVisitor = (validator: LooseTest<any>, descriptor: ValidatorDescriptor | null, parents: ReadonlyArray<LooseTest<any>>) => boolean | void;
+
+export type PathSegment = string | number;
+
+/**
+ * Stable identifiers describing why a value got rejected. Unlike the error
+ * messages, they're guaranteed not to change between minor releases.
+ */
+export type ValidationIssueCode =
+  | `custom`
+  | `invalid_type`
+  | `invalid_literal`
+  | `invalid_enum_value`
+  | `invalid_union`
+  | `invalid_discriminator`
+  | `circular_reference`
+  | `invalid_format`
+  | `invalid_json`
+  | `too_small`
+  | `too_big`
+  | `not_integer`
+  | `not_finite`
+  | `not_unique`
+  | `unsafe_number`
+  | `unsafe_property_name`
+  | `extraneous_property`
+  | `missing_properties`
+  | `forbidden_properties`
+  | `mutually_exclusive_properties`
+  | `coercion_required`
+  | `transform_failed`
+  | `async_required`
+  | `unbound_coercion`;
+
+export type ValidationIssue = {
+  path: PathSegment[],
+  code: ValidationIssueCode,
+  message: string,
+  expected?: unknown,
+  received?: unknown,
+};
+
+export type MessageParams = {[name: string]: string | number | bigint};
+
+export type MessageCatalog = {
+  locale: string,
+  messages: {[id: string]: string},
+};
+
+// Shared by all the nested states, so that the errors are counted across
+// the whole validation
+export type ErrorLimit = {
+  max: number,
+  count: number,
+};
+
 export type ValidationState = {
   p?: string,
+  path?: PathSegment[],
   errors?: string[],
+  issues?: ValidationIssue[],
   coercions?: Coercion[],
   coercion?: CoercionFn,
+  pending?: Array<Promise<boolean>>,
+  catalog?: MessageCatalog,
+  abortEarly?: boolean,
+  errorLimit?: ErrorLimit,
 };
@@ -147,3 +147,139 @@ function assertEqual<U>() {
     const foo: MyType = res.value;
   }
 }
+
+{
+  const schema = t.isObject({
+    version: t.transform(t.isString(), value => {
+      const [major, minor, patch] = value.split(`.`).map(Number);
+      return {major, minor, patch};
+    }),
+  });
+
+  type MyType = t.InferType<typeof schema>;
+
+  const foo: MyType = {version: {major: 1, minor: 2, patch: 3}};
+
+  // @ts-expect-error
+  const bar: MyType = {version: `1.2.3`};
+}
+
+{
+  const schema = t.isObject({
+    port: t.withDefault(t.isNumber(), 8080),
+    host: t.withDefault(t.isOptional(t.isString()), () => `localhost`),
+  });
+
+  type MyType = t.InferType<typeof schema>;
+
+  const foo: MyType = {port: 8080, host: `localhost`};
+
+  // @ts-expect-error
+  const bar: MyType = {};
+
+  // @ts-expect-error
+  const baz: MyType = {port: 8080, host: undefined};
+}
+
+{
+  const schema = t.isDiscriminatedUnion(`type`, {
+    user: t.isObject({type: t.isLiteral(`user`), name: t.isString()}),
+    group: t.isObject({type: t.isLiteral(`group`), members: t.isArray(t.isString())}),
+  });
+
+  type MyType = t.InferType<typeof schema>;
+
+  const foo: MyType = {type: `user`, name: `foo`};
+  const bar: MyType = {type: `group`, members: []};
+
+  // @ts-expect-error
+  const baz: MyType = {type: `user`, members: []};
+
+  // @ts-expect-error
+  const qux: MyType = {type: `robot`};
+
+  const narrow = (value: MyType) => {
+    if (value.type === `group`) {
+      const members: string[] = value.members;
+    }
+  };
+}
+
+{
+  type Node = {name: string, children: Array<Node>};
+
+  const isNode: t.StrictValidator<unknown, Node> = t.isLazy(() => t.isObject({
+    name: t.isString(),
+    children: t.isArray(isNode),
+  }));
+
+  type MyType = t.InferType<typeof isNode>;
+
+  const foo: MyType = {name: `root`, children: [{name: `leaf`, children: []}]};
+
+  // @ts-expect-error
+  const bar: MyType = {name: `root`, children: [{name: `leaf`}]};
+}
+
+{
+  const schema = t.isAllOf([
+    t.isObject({id: t.isNumber()}),
+    t.isObject({name: t.isString(), description: t.isOptional(t.isString())}),
+  ]);
+
+  type MyType = t.InferType<typeof schema>;
+
+  const foo: MyType = {id: 42, name: `foo`};
+  const bar: MyType = {id: 42, name: `foo`, description: `bar`};
+
+  // @ts-expect-error
+  const baz: MyType = {id: 42};
+
+  // @ts-expect-error
+  const qux: MyType = {name: `foo`};
+}
+
+{
+  const isUser = t.isObject({
+    id: t.isNumber(),
+    name: t.isString(),
+    description: t.isOptional(t.isString()),
+    address: t.isObject({city: t.isString(), zip: t.isString()}),
+  });
+
+  const isPicked = t.pick(isUser, [`id`, `name`]);
+  const picked: t.InferType<typeof isPicked> = {id: 42, name: `foo`};
+  // @ts-expect-error
+  const pickedExtra: t.InferType<typeof isPicked> = {id: 42, name: `foo`, description: `bar`};
+
+  const isOmitted = t.omit(isUser, [`id`, `address`]);
+  const omitted: t.InferType<typeof isOmitted> = {name: `foo`};
+  // @ts-expect-error
+  const omittedExtra: t.InferType<typeof isOmitted> = {id: 42, name: `foo`};
+  const omittedProperty: t.StrictValidator<unknown, string> = isOmitted.properties.name;
+  // @ts-expect-error
+  const omittedMissingProperty = isOmitted.properties.id;
+
+  const isExtended = t.extend(isUser, {id: t.isString(), age: t.isNumber()});
+  const extended: t.InferType<typeof isExtended> = {id: `42`, name: `foo`, age: 42, address: {city: `foo`, zip: `bar`}};
+  // @ts-expect-error
+  const extendedWrongId: t.InferType<typeof isExtended> = {id: 42, name: `foo`, age: 42, address: {city: `foo`, zip: `bar`}};
+
+  const isPartialUser = t.partial(isUser);
+  const partial: t.InferType<typeof isPartialUser> = {};
+  // @ts-expect-error
+  const partialNested: t.InferType<typeof isPartialUser> = {address: {}};
+
+  const isRequiredUser = t.required(isUser);
+  // @ts-expect-error
+  const required: t.InferType<typeof isRequiredUser> = {id: 42, name: `foo`, address: {city: `foo`, zip: `bar`}};
+
+  const isDeepPartialUser = t.deepPartial(isUser);
+  const deepPartial: t.InferType<typeof isDeepPartialUser> = {address: {}};
+  // @ts-expect-error
+  const deepPartialWrong: t.InferType<typeof isDeepPartialUser> = {address: {city: 42}};
+  const deepPartialProperty: t.StrictValidator<unknown, string | undefined> = isDeepPartialUser.properties.name;
+
+  const isPartialRecord = t.pick(t.isPartial({id: t.isNumber(), name: t.isString()}), [`id`]);
+  const partialRecord: t.InferType<typeof isPartialRecord> = {id: 42, foo: `bar`};
+}
@@ -15,7 +15,7 @@ module.exports = {
   },
 
   sidebar: {
-    General: [`overview`, `getting-started`, `examples`],
+    General: [`overview`, `getting-started`, `examples`, `introspection`, `json-schema`],
     API: [`predicates/cascading`, `predicates/helpers`, `predicates/types`],
   },
 